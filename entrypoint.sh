@@ -3,37 +3,52 @@ set -e
 
 echo "Starting neomount container..."
 
-# Validate required environment variables
-if [ -z "$RCLONE_REMOTE" ]; then
-    echo "ERROR: RCLONE_REMOTE environment variable is required"
-    exit 1
-fi
+# Validate the configuration and rclone.conf, reporting every problem at once
+/usr/local/bin/node /opt/neomount/dist/bin/check-config.js
 
-# Check if rclone config exists
-if [ ! -f /config/rclone.conf ]; then
-    echo "ERROR: rclone.conf not found at /config/rclone.conf"
-    echo "Please mount your rclone config file to /config/rclone.conf"
-    exit 1
-fi
+# Export the resolved configuration (config file + environment) so the
+# scripts run by supervisord see the same values as the TypeScript services
+set -a
+. /run/neomount/config.env
+set +a
 
-# Verify the remote exists in the config
-if ! rclone --config /config/rclone.conf listremotes | grep -q "^${RCLONE_REMOTE}:$"; then
-    echo "ERROR: Remote '${RCLONE_REMOTE}' not found in rclone.conf"
-    echo "Available remotes:"
-    rclone --config /config/rclone.conf listremotes
-    exit 1
-fi
-
-echo "Configuration validated successfully"
 echo "Remote: ${RCLONE_REMOTE}"
 echo "Remote Path: ${RCLONE_REMOTE_PATH}"
 echo "Local Path: ${LOCAL_PATH}"
 echo "Rclone Mount: ${RCLONE_MOUNT_PATH}"
+if [ -n "${RCLONE_EXTRA_REMOTES}" ]; then
+    echo "Extra Remotes: ${RCLONE_EXTRA_REMOTES}"
+fi
 echo "Merged Path: ${MERGED_PATH}"
 echo "Move Schedule: ${MOVE_SCHEDULE}"
 
 # Create mount points if they don't exist
 mkdir -p "${LOCAL_PATH}" "${RCLONE_MOUNT_PATH}" "${MERGED_PATH}"
 
-# Start supervisord
-exec /usr/bin/supervisord -c /etc/supervisor/conf.d/supervisord.conf
+# One rclone program per extra remote, generated from services/rclone.conf
+/usr/local/bin/node /opt/neomount/dist/bin/generate-services.js
+
+# Left behind by the previous run; moves are refused while they exist
+rm -f /run/neomount/shutting-down /run/neomount/move-start.claim
+
+# Start supervisord. It runs in the background so that on `docker stop` the
+# shutdown coordinator can first let a running move finish and unmount
+# mergerfs before the rclone mounts (src/shutdown.ts); supervisord then
+# stops whatever is left.
+/usr/bin/supervisord -c /etc/supervisor/conf.d/supervisord.conf &
+SUPERVISORD_PID=$!
+
+shutdown() {
+    /usr/local/bin/node /opt/neomount/dist/bin/shutdown.js || true
+    kill -TERM "${SUPERVISORD_PID}" 2>/dev/null || true
+}
+trap shutdown TERM INT
+
+EXIT_CODE=0
+wait "${SUPERVISORD_PID}" || EXIT_CODE=$?
+# A trapped signal interrupts wait while supervisord is still stopping
+if kill -0 "${SUPERVISORD_PID}" 2>/dev/null; then
+    EXIT_CODE=0
+    wait "${SUPERVISORD_PID}" || EXIT_CODE=$?
+fi
+exit ${EXIT_CODE}
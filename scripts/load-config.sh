@@ -0,0 +1,16 @@
+# Sourced by the other scripts. Exports the resolved configuration (config
+# file + environment) that check-config.js validated at container start, so
+# a script run through `docker exec` sees the same values as the services.
+# Settings the caller changed from the container's start environment, e.g.
+# `RCLONE_REMOTE=backup /scripts/move-job.sh`, are validated and normalised
+# first; the node helpers the script runs apply them the same way.
+CONFIG_ENV=/run/neomount/config.env
+if [ ! -f "${CONFIG_ENV}" ]; then
+    echo "ERROR: ${CONFIG_ENV} not found; the container has not finished starting"
+    exit 1
+fi
+RESOLVED_ENV=$(/usr/local/bin/node /opt/neomount/dist/bin/config-env.js) || exit 1
+set -a
+eval "${RESOLVED_ENV}"
+set +a
+unset RESOLVED_ENV
@@ -1,23 +1,35 @@
 #!/bin/bash
 set -e
 
-echo "Waiting for rclone mount to be ready..."
+# The resolved configuration, also when run by hand
+. /scripts/load-config.sh
 
-# Wait for rclone mount to be available
+# Mount path of every remote: RCLONE_MOUNT_PATH and any RCLONE_EXTRA_REMOTES
+mapfile -d '' REMOTE_MOUNTS < <(/usr/local/bin/node /opt/neomount/dist/bin/mount-command.js remotes)
+if [ ${#REMOTE_MOUNTS[@]} -eq 0 ]; then
+    echo "ERROR: Failed to list rclone mounts"
+    exit 1
+fi
+
+echo "Waiting for rclone mounts to be ready..."
+
+# Wait for every rclone mount to be available
 MAX_WAIT=60
 WAITED=0
-while ! mountpoint -q "${RCLONE_MOUNT_PATH}"; do
-    if [ $WAITED -ge $MAX_WAIT ]; then
-        echo "ERROR: Rclone mount not ready after ${MAX_WAIT} seconds"
-        exit 1
-    fi
-    sleep 1
-    WAITED=$((WAITED + 1))
+for REMOTE_MOUNT in "${REMOTE_MOUNTS[@]}"; do
+    while ! mountpoint -q "${REMOTE_MOUNT}"; do
+        if [ $WAITED -ge $MAX_WAIT ]; then
+            echo "ERROR: Rclone mount ${REMOTE_MOUNT} not ready after ${MAX_WAIT} seconds"
+            exit 1
+        fi
+        sleep 1
+        WAITED=$((WAITED + 1))
+    done
 done
 
-echo "Rclone mount is ready"
+echo "Rclone mounts are ready"
 echo "Starting mergerfs mount..."
-echo "Branches: ${LOCAL_PATH} (RW) + ${RCLONE_MOUNT_PATH} (RO)"
+echo "Branches: ${LOCAL_PATH} (RW) + ${REMOTE_MOUNTS[*]} (RO)"
 echo "Mount point: ${MERGED_PATH}"
 
 # Verify source directories exist and are accessible
@@ -26,28 +38,34 @@ if [ ! -d "${LOCAL_PATH}" ]; then
     echo "ERROR: LOCAL_PATH does not exist: ${LOCAL_PATH}"
     exit 1
 fi
-if [ ! -d "${RCLONE_MOUNT_PATH}" ]; then
-    echo "ERROR: RCLONE_MOUNT_PATH does not exist: ${RCLONE_MOUNT_PATH}"
-    exit 1
-fi
+for REMOTE_MOUNT in "${REMOTE_MOUNTS[@]}"; do
+    if [ ! -d "${REMOTE_MOUNT}" ]; then
+        echo "ERROR: Rclone mount path does not exist: ${REMOTE_MOUNT}"
+        exit 1
+    fi
+done
 
 echo "Listing ${LOCAL_PATH}:"
 ls -la "${LOCAL_PATH}" || echo "Failed to list ${LOCAL_PATH}"
 
-echo "Listing ${RCLONE_MOUNT_PATH}:"
-ls -la "${RCLONE_MOUNT_PATH}" || echo "Failed to list ${RCLONE_MOUNT_PATH}"
+for REMOTE_MOUNT in "${REMOTE_MOUNTS[@]}"; do
+    echo "Listing ${REMOTE_MOUNT}:"
+    ls -la "${REMOTE_MOUNT}" || echo "Failed to list ${REMOTE_MOUNT}"
+done
 
 # Unmount if already mounted (cleanup from previous run)
 fusermount -uz "${MERGED_PATH}" 2>/dev/null || true
 
-# Mount mergerfs with local as RW and rclone as RO
-# Optimized for high-bandwidth video streaming and large file reads
+# Mount mergerfs with local as RW and every rclone mount as NC (no create)
 # Writes go to local, reads check local first then rclone
-# Custom args can be provided via MERGERFS_MOUNT_ARGS environment variable
+# The defaults from src/mount-commands.ts are merged per option with any
+# overrides from MERGERFS_MOUNT_ARGS or the config file
+mapfile -d '' MOUNT_COMMAND < <(/usr/local/bin/node /opt/neomount/dist/bin/mount-command.js mergerfs)
+if [ ${#MOUNT_COMMAND[@]} -eq 0 ]; then
+    echo "ERROR: Failed to build mergerfs mount command"
+    exit 1
+fi
+
 echo "Executing mergerfs command..."
-exec mergerfs \
-    -f \
-    -o allow_other \
-    ${MERGERFS_MOUNT_ARGS:--o func.getattr=newest -o minfreespace=10G -o category.action=all -o category.create=ff -o rw} \
-    "${LOCAL_PATH}=RW:${RCLONE_MOUNT_PATH}=NC" \
-    "${MERGED_PATH}"
+echo "Effective command: $(printf '%q ' "${MOUNT_COMMAND[@]}")"
+exec "${MOUNT_COMMAND[@]}"
@@ -1,37 +1,223 @@
 #!/bin/bash
 set -e
 
+# The resolved configuration, also when run by hand
+. /scripts/load-config.sh
+
+# Usage: move-job.sh [--dry-run]
+# --dry-run: run rclone with --dry-run, so it logs what it would move (as
+# JSON) without touching any file. Used for the move plan report.
+DRY_RUN=false
+if [ "$1" = "--dry-run" ]; then
+    DRY_RUN=true
+elif [ $# -gt 0 ]; then
+    echo "Usage: move-job.sh [--dry-run]"
+    exit 2
+fi
+
+# Only one move may run at a time, whether started by the scheduler, the
+# management API or by hand. The lock is held until this script and rclone
+# exit. Exit code 75 (EX_TEMPFAIL) tells the caller the move was skipped.
+# A dry run changes nothing, so it does not need the lock.
+MOVE_LOCK=/run/neomount/move.lock
+mkdir -p "$(dirname "${MOVE_LOCK}")"
+if [ "${DRY_RUN}" = "false" ]; then
+    exec 9>"${MOVE_LOCK}"
+    if ! flock --nonblock 9; then
+        echo "Another move job is already running, skipping"
+        exit 75
+    fi
+fi
+
+# No move starts once the container is shutting down (src/shutdown.ts). A
+# move already running skips its remaining routes and exits with 143, as if
+# it had been terminated.
+SHUTDOWN_MARKER=/run/neomount/shutting-down
+if [ -e "${SHUTDOWN_MARKER}" ]; then
+    echo "Container is shutting down, skipping"
+    exit 75
+fi
+
 echo "=========================================="
 echo "Move Job Started: $(date)"
 echo "=========================================="
 
+DRY_RUN_ARGS=()
+if [ "${DRY_RUN}" = "true" ]; then
+    echo "Dry run: no files will be moved"
+    DRY_RUN_ARGS+=(--dry-run)
+fi
+
 # Check if local path has any files
-if [ -z "$(ls -A ${LOCAL_PATH})" ]; then
+if [ -z "$(ls -A "${LOCAL_PATH}")" ]; then
     echo "No files to move in ${LOCAL_PATH}"
     echo "Move Job Completed: $(date)"
     exit 0
 fi
 
-echo "Moving files from ${LOCAL_PATH} to ${RCLONE_REMOTE}:${RCLONE_REMOTE_PATH}"
+# Routes: each MOVE_ROUTES entry, then the default route to the upload remote
+# (MOVE_UPLOAD_REMOTE, or RCLONE_REMOTE), as name/source/destination triples
+mapfile -d '' ROUTES < <(/usr/local/bin/node /opt/neomount/dist/bin/move-routes.js)
+if [ ${#ROUTES[@]} -eq 0 ]; then
+    echo "ERROR: Failed to list move routes"
+    exit 1
+fi
+
 echo "Using fast-list for improved performance"
 
-# Move files from local to remote using rclone move
-# --fast-list: Use recursive list if available (faster for large directories)
-# --transfers: Number of file transfers to run in parallel
-# --checkers: Number of checkers to run in parallel
-# --delete-empty-src-dirs: Delete empty source directories after move
-rclone move \
-    --config /config/rclone.conf \
-    --fast-list \
-    --transfers 16 \
-    --checkers 16 \
-    --delete-empty-src-dirs \
-    --log-level INFO \
-    --stats 30s \
-    --stats-one-line \
-    "${LOCAL_PATH}/" \
-    "${RCLONE_REMOTE}:${RCLONE_REMOTE_PATH}"
+# Filter rules (MOVE_FILTERS plus the built-in partial-download patterns).
+# Files a process still has open for writing are excluded until the next
+# run, and logged. Preview with: node /opt/neomount/dist/bin/filters.js
+# Pressure and watch moves (MOVE_FILES_FROM) instead hand each route its
+# share of the listed files through --files-from-raw, so rclone looks up
+# those files rather than walking the whole route.
+FILTER_FILE=$(mktemp /run/neomount/move-filters.XXXXXX)
+FILES_LIST=$(mktemp /run/neomount/move-verify.XXXXXX)
+
+# Bandwidth (MOVE_BWLIMIT): each transfer starts with the limit in force at
+# that time of day. It listens on a remote control socket, through which the
+# scheduler service applies later changes of limit while it runs. A dry run
+# transfers nothing, and may run alongside a real move, so it gets neither.
+MOVE_RC_SOCKET=/run/neomount/move-rc.sock
+trap 'rm -f "${FILTER_FILE}" "${FILES_LIST}"; [ "${DRY_RUN}" = "true" ] || rm -f "${MOVE_RC_SOCKET}"' EXIT
+
+# Verification (MOVE_VERIFY): copy instead of move, then compare every copied
+# file with the remote before deleting it locally. Files that still differ
+# after a second upload are moved to LOCAL_PATH/.quarantine/RUN_STAMP.
+# A dry run plans a plain rclone move, since nothing would be copied.
+RUN_STAMP=$(date -u +%Y%m%dT%H%M%SZ)
+if [ "${MOVE_VERIFY:-false}" = "true" ] && [ "${DRY_RUN}" = "false" ]; then
+    echo "Verifying size and hash of every file before deleting it"
+fi
+
+# Move policies
+# --min-age: Leave files that may still be being written for a later run
+# --order-by: Upload the oldest files first
+POLICY_ARGS=()
+if [ "${MOVE_MIN_AGE:-0s}" != "0s" ]; then
+    echo "Only moving files older than ${MOVE_MIN_AGE}"
+    POLICY_ARGS+=(--min-age "${MOVE_MIN_AGE}")
+fi
+if [ "${MOVE_ORDER:-none}" = "oldest-first" ]; then
+    echo "Moving oldest files first"
+    POLICY_ARGS+=(--order-by modtime,ascending)
+fi
+
+# One transfer per route. A failed route does not stop the others; the job
+# fails at the end if any route failed. The "Route ..." lines are parsed into
+# the per-route results of the move history.
+FAILED_ROUTES=()
+STOPPED=false
+for ((i = 0; i < ${#ROUTES[@]}; i += 3)); do
+    ROUTE="${ROUTES[i]}"
+    SOURCE="${ROUTES[i + 1]}"
+    DESTINATION="${ROUTES[i + 2]}"
+
+    if [ -e "${SHUTDOWN_MARKER}" ]; then
+        echo "Container is shutting down, leaving the remaining routes for the next run"
+        STOPPED=true
+        break
+    fi
+
+    if [ -z "$(ls -A "${SOURCE}" 2>/dev/null)" ]; then
+        echo "Route \"${ROUTE}\" skipped: no files in ${SOURCE}"
+        continue
+    fi
+
+    if [ -n "${MOVE_FILES_FROM:-}" ]; then
+        /usr/local/bin/node /opt/neomount/dist/bin/filters.js --files-from --route "${ROUTE}" > "${FILTER_FILE}"
+        if [ ! -s "${FILTER_FILE}" ]; then
+            echo "Route \"${ROUTE}\" skipped: no listed files"
+            continue
+        fi
+        SELECT_ARGS=(--files-from-raw "${FILTER_FILE}")
+    else
+        /usr/local/bin/node /opt/neomount/dist/bin/filters.js --rclone --route "${ROUTE}" > "${FILTER_FILE}"
+        SELECT_ARGS=(--filter-from "${FILTER_FILE}")
+    fi
+
+    echo "Route \"${ROUTE}\" started: moving files from ${SOURCE} to ${DESTINATION}"
+
+    # Move files from local to remote using rclone move
+    # --fast-list: Use recursive list if available (faster for large directories)
+    # --transfers: Number of file transfers to run in parallel
+    # --checkers: Number of checkers to run in parallel
+    # --bwlimit: Upload bandwidth limit for the current time of day
+    # --use-json-log: Machine-readable output, parsed into the move history
+    TRANSFER_ARGS=(
+        --config /config/rclone.conf
+        --fast-list
+        --transfers "${MOVE_TRANSFERS:-16}"
+        --checkers "${MOVE_CHECKERS:-16}"
+        --log-level INFO
+        --stats 30s
+        --stats-one-line
+        --use-json-log
+    )
+    if [ "${DRY_RUN}" = "false" ]; then
+        BWLIMIT=$(/usr/local/bin/node /opt/neomount/dist/bin/bandwidth.js --rclone)
+        echo "Bandwidth limit: ${BWLIMIT}"
+        TRANSFER_ARGS+=(--bwlimit "${BWLIMIT}" --rc --rc-addr "unix://${MOVE_RC_SOCKET}")
+        # Left behind if a previous transfer was killed
+        rm -f "${MOVE_RC_SOCKET}"
+    fi
+    EXIT_CODE=0
+    if [ "${MOVE_VERIFY:-false}" = "true" ] && [ "${DRY_RUN}" = "false" ]; then
+        # List the files up front so the copy and the check cover the same set
+        rclone lsf -R --files-only \
+            --config /config/rclone.conf \
+            "${SELECT_ARGS[@]}" \
+            "${POLICY_ARGS[@]}" \
+            "${SOURCE}/" > "${FILES_LIST}" || EXIT_CODE=$?
+        if [ ${EXIT_CODE} -eq 0 ]; then
+            rclone copy \
+                "${TRANSFER_ARGS[@]}" \
+                --files-from-raw "${FILES_LIST}" \
+                "${POLICY_ARGS[@]}" \
+                "${SOURCE}/" \
+                "${DESTINATION}" || EXIT_CODE=$?
+        fi
+        # A failed copy leaves every local file for the next run
+        if [ ${EXIT_CODE} -eq 0 ]; then
+            /usr/local/bin/node /opt/neomount/dist/bin/verify.js \
+                --route "${ROUTE}" --files "${FILES_LIST}" --run "${RUN_STAMP}" || EXIT_CODE=$?
+        fi
+    else
+        # --delete-empty-src-dirs: Delete empty source directories after move
+        rclone move \
+            "${TRANSFER_ARGS[@]}" \
+            --delete-empty-src-dirs \
+            "${SELECT_ARGS[@]}" \
+            "${POLICY_ARGS[@]}" \
+            "${DRY_RUN_ARGS[@]}" \
+            "${SOURCE}/" \
+            "${DESTINATION}" || EXIT_CODE=$?
+    fi
+
+    # On shutdown, rclone is told to start no new files and exits with an
+    # error once the files in flight are done; the route counts as cancelled
+    if [ ${EXIT_CODE} -ne 0 ] && [ -e "${SHUTDOWN_MARKER}" ]; then
+        echo "Route \"${ROUTE}\" stopped: container is shutting down (exit code ${EXIT_CODE})"
+        STOPPED=true
+        break
+    fi
+
+    echo "Route \"${ROUTE}\" finished: exit code ${EXIT_CODE}"
+    if [ ${EXIT_CODE} -ne 0 ]; then
+        FAILED_ROUTES+=("${ROUTE}")
+    fi
+done
 
 echo "=========================================="
 echo "Move Job Completed: $(date)"
 echo "=========================================="
+
+if [ ${#FAILED_ROUTES[@]} -gt 0 ]; then
+    echo "ERROR: Failed routes: ${FAILED_ROUTES[*]}"
+    exit 1
+fi
+
+if [ "${STOPPED}" = "true" ]; then
+    echo "Move stopped early for shutdown"
+    exit 143
+fi
@@ -1,23 +1,41 @@
 #!/bin/bash
 set -e
 
+# The resolved configuration, also when run by hand
+. /scripts/load-config.sh
+
+# Mounts one remote. The program name selects which: `rclone` (the default)
+# mounts RCLONE_REMOTE, and the programs generated for RCLONE_EXTRA_REMOTES
+# pass their own name.
+PROGRAM="${1:-rclone}"
+
+# Build the effective command: core arguments, the defaults from
+# src/mount-commands.ts and any overrides from RCLONE_MOUNT_ARGS or the config
+# file, merged per flag. Optimized for high-bandwidth video streaming and
+# large file reads using full VFS cache.
+# Mergerfs marks this as RO, but rclone needs full functionality for move operations
+mapfile -d '' MOUNT_COMMAND < <(/usr/local/bin/node /opt/neomount/dist/bin/mount-command.js rclone "${PROGRAM}")
+if [ ${#MOUNT_COMMAND[@]} -eq 0 ]; then
+    echo "ERROR: Failed to build rclone mount command"
+    exit 1
+fi
+
+# The remote and mount point are the last two words
+MOUNT_PATH="${MOUNT_COMMAND[-1]}"
+
 echo "Starting rclone mount..."
-echo "Remote: ${RCLONE_REMOTE}:${RCLONE_REMOTE_PATH}"
-echo "Mount point: ${RCLONE_MOUNT_PATH}"
+echo "Remote: ${MOUNT_COMMAND[-2]}"
+echo "Mount point: ${MOUNT_PATH}"
+
+mkdir -p "${MOUNT_PATH}"
 
 # Unmount if already mounted (cleanup from previous run)
-fusermount -uz "${RCLONE_MOUNT_PATH}" 2>/dev/null || true
+fusermount -uz "${MOUNT_PATH}" 2>/dev/null || true
 
-# Mount rclone remote
-# Optimized for high-bandwidth video streaming and large file reads
-# Using full VFS cache for best performance
-# Mergerfs marks this as RO, but rclone needs full functionality for move operations
-# Custom args can be provided via RCLONE_MOUNT_ARGS environment variable
-exec rclone mount \
-    --config /config/rclone.conf \
-    --allow-other \
-    --allow-non-empty \
-    --log-level INFO \
-    ${RCLONE_MOUNT_ARGS:---vfs-cache-mode full --vfs-cache-max-age 72h --vfs-cache-max-size 100G --dir-cache-time 1h --poll-interval 30s --attr-timeout 1h} \
-    "${RCLONE_REMOTE}:${RCLONE_REMOTE_PATH}" \
-    "${RCLONE_MOUNT_PATH}"
+# The remote control socket (--rc-addr) is left behind if rclone was killed
+RC_SOCKET="/run/neomount/rc/${PROGRAM}.sock"
+mkdir -p "$(dirname "${RC_SOCKET}")"
+rm -f "${RC_SOCKET}"
+
+echo "Effective command: $(printf '%q ' "${MOUNT_COMMAND[@]}")"
+exec "${MOUNT_COMMAND[@]}"
@@ -0,0 +1,120 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Logger } from "../log.js";
+
+/**
+ * Minimal JSON routing helpers for the management API
+ */
+
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export interface HandlerResult {
+  status?: number;
+  body: unknown;
+  /** Send `body` as-is with this content type instead of as JSON */
+  contentType?: string;
+}
+
+export type Handler = (
+  req: IncomingMessage,
+  url: URL
+) => Promise<HandlerResult>;
+
+export interface Route {
+  method: string;
+  path: string;
+  handler: Handler;
+}
+
+/** Largest request body accepted */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Read a JSON request body; an empty body reads as an empty object
+ */
+export async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  let body = "";
+  for await (const chunk of req) {
+    body += String(chunk);
+    if (body.length > MAX_BODY_BYTES) {
+      throw new HttpError(413, "Request body too large");
+    }
+  }
+  if (!body.trim()) return {};
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+export function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown
+): void {
+  const payload = JSON.stringify(body, null, 2) + "\n";
+  res.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Content-Length": Buffer.byteLength(payload),
+  });
+  res.end(payload);
+}
+
+export function sendText(
+  res: ServerResponse,
+  status: number,
+  contentType: string,
+  body: string
+): void {
+  res.writeHead(status, {
+    "Content-Type": contentType,
+    "Content-Length": Buffer.byteLength(body),
+  });
+  res.end(body);
+}
+
+/**
+ * Create a request listener that dispatches to the matching route and turns
+ * thrown errors into JSON error responses
+ */
+export function createRouter(routes: Route[], log: Logger) {
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const matching = routes.filter((route) => route.path === url.pathname);
+
+    try {
+      if (matching.length === 0) {
+        throw new HttpError(404, `No route for ${url.pathname}`);
+      }
+
+      const route = matching.find((r) => r.method === req.method);
+      if (!route) {
+        res.setHeader("Allow", matching.map((r) => r.method).join(", "));
+        throw new HttpError(405, `Method ${req.method} not allowed`);
+      }
+
+      const { status = 200, body, contentType } = await route.handler(req, url);
+      if (contentType) {
+        sendText(res, status, contentType, String(body));
+      } else {
+        sendJson(res, status, body);
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+        return;
+      }
+      log.error(`${req.method} ${url.pathname} failed`, {
+        method: req.method,
+        path: url.pathname,
+        error,
+      });
+      sendJson(res, 500, { error: (error as Error).message });
+    }
+  };
+}
@@ -0,0 +1,229 @@
+import { timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { Config } from "../config/schema.js";
+import type { Logger } from "../log.js";
+import { collectMetrics, formatMetrics } from "../metrics.js";
+import { getMountStatuses } from "../mounts.js";
+import { parseHistoryQuery, readHistory } from "../move/history.js";
+import {
+  cancelMove,
+  getLastRun,
+  MoveInProgressError,
+  startMove,
+} from "../move/runner.js";
+import {
+  parsePrewarmRequest,
+  PrewarmError,
+  startPrewarm,
+  type StartedPrewarm,
+} from "../prewarm.js";
+import { getRemoteMounts } from "../remotes.js";
+import { getProgramStatuses } from "../supervisor.js";
+import { getVfsStats } from "../vfs.js";
+import { readRecoveryEvents } from "../watchdog/events.js";
+import {
+  createRouter,
+  HttpError,
+  readJsonBody,
+  sendJson,
+  type Route,
+} from "./http.js";
+
+/**
+ * Management HTTP API exposing program state, mount status and move job
+ * control as JSON, plus Prometheus metrics
+ */
+
+export interface ApiOptions {
+  config: Config;
+  log: Logger;
+}
+
+export function createRoutes(options: ApiOptions): Route[] {
+  const { config, log } = options;
+  const remotes = getRemoteMounts(config);
+
+  // Programs reported by the API; one-shot helpers are left out
+  const names = [
+    ...remotes.map((remote) => remote.program),
+    "mergerfs",
+    "scheduler",
+    "watchdog",
+  ];
+  const programs = async () => {
+    const statuses = await getProgramStatuses();
+    return statuses.filter((status) => names.includes(status.name));
+  };
+  const mounts = () =>
+    getMountStatuses([
+      ...remotes.map((remote) => remote.mountPath),
+      config.mergerfs.mountPath,
+    ]);
+  // The current or most recent pre-warm started through the API
+  let prewarm: StartedPrewarm | null = null;
+
+  return [
+    {
+      method: "GET",
+      path: "/status",
+      handler: async () => {
+        const [programStatuses, mountStatuses, move] = await Promise.all([
+          programs(),
+          mounts(),
+          getLastRun(),
+        ]);
+        return {
+          body: { programs: programStatuses, mounts: mountStatuses, move },
+        };
+      },
+    },
+    {
+      method: "GET",
+      path: "/programs",
+      handler: async () => ({ body: await programs() }),
+    },
+    {
+      method: "GET",
+      path: "/mounts",
+      handler: async () => ({ body: await mounts() }),
+    },
+    {
+      method: "GET",
+      path: "/vfs/stats",
+      handler: async () => ({ body: await getVfsStats(config) }),
+    },
+    {
+      method: "GET",
+      path: "/prewarm",
+      handler: async () => ({ body: prewarm?.progress ?? null }),
+    },
+    {
+      method: "POST",
+      path: "/prewarm",
+      handler: async (req) => {
+        if (prewarm && prewarm.progress.status !== "finished") {
+          throw new HttpError(409, "A pre-warm is already running");
+        }
+        try {
+          prewarm = startPrewarm(
+            config,
+            parsePrewarmRequest(await readJsonBody(req)),
+            log
+          );
+        } catch (error) {
+          if (error instanceof PrewarmError) {
+            throw new HttpError(400, error.message);
+          }
+          throw error;
+        }
+        prewarm.done
+          .then((result) =>
+            log.info(
+              `Pre-warm finished: ${result.warmedFiles} files warmed, ` +
+                `${result.failed.length} failed`,
+              { warmed: result.warmedFiles, failed: result.failed.length }
+            )
+          )
+          .catch((error) => log.error("Pre-warm failed", { error }));
+        return { status: 202, body: prewarm.progress };
+      },
+    },
+    {
+      method: "GET",
+      path: "/metrics",
+      handler: async () => ({
+        body: formatMetrics(await collectMetrics(config, log)),
+        contentType: "text/plain; version=0.0.4; charset=utf-8",
+      }),
+    },
+    {
+      method: "GET",
+      path: "/move",
+      handler: async () => ({ body: await getLastRun() }),
+    },
+    {
+      method: "POST",
+      path: "/move",
+      handler: async () => {
+        try {
+          const { run, done } = await startMove("api", { log });
+          done
+            .then((result) =>
+              log.info(`Move ${result.id} finished: ${result.status}`, {
+                id: result.id,
+                status: result.status,
+              })
+            )
+            .catch((error) =>
+              log.error(`Move ${run.id} failed`, { id: run.id, error })
+            );
+          return { status: 202, body: run };
+        } catch (error) {
+          if (error instanceof MoveInProgressError) {
+            throw new HttpError(409, error.message);
+          }
+          throw error;
+        }
+      },
+    },
+    {
+      method: "GET",
+      path: "/move/history",
+      handler: async (_req, url) => {
+        let query;
+        try {
+          query = parseHistoryQuery(url.searchParams);
+        } catch (error) {
+          throw new HttpError(400, (error as Error).message);
+        }
+        return { body: await readHistory(query) };
+      },
+    },
+    {
+      method: "POST",
+      path: "/move/cancel",
+      handler: async () => {
+        const run = await cancelMove();
+        if (!run) throw new HttpError(409, "No move job is running");
+        return { status: 202, body: run };
+      },
+    },
+    {
+      method: "GET",
+      path: "/watchdog/events",
+      handler: async (_req, url) => {
+        const limit = url.searchParams.get("limit");
+        if (limit !== null && !/^\d+$/.test(limit)) {
+          throw new HttpError(400, `invalid limit "${limit}"`);
+        }
+        return {
+          body: await readRecoveryEvents(
+            limit === null ? undefined : Number(limit)
+          ),
+        };
+      },
+    },
+  ];
+}
+
+/**
+ * Whether the request carries `Authorization: Bearer <token>`
+ */
+function hasToken(req: IncomingMessage, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(req.headers.authorization ?? "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function createApiServer(options: ApiOptions): Server {
+  const router = createRouter(createRoutes(options), options.log);
+  const { token } = options.config.api;
+  return createServer((req, res) => {
+    if (token && !hasToken(req, token)) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      sendJson(res, 401, { error: "Missing or invalid API token" });
+      return;
+    }
+    void router(req, res);
+  });
+}
@@ -0,0 +1,210 @@
+/**
+ * Helpers for the mount argument strings passed in RCLONE_MOUNT_ARGS and
+ * MERGERFS_MOUNT_ARGS
+ */
+
+export class ArgsParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArgsParseError";
+  }
+}
+
+/**
+ * Split an argument string into words the way a POSIX shell would, honouring
+ * single quotes, double quotes and backslash escapes
+ */
+export function splitArgs(input: string): string[] {
+  const words: string[] = [];
+  let current = "";
+  let inWord = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i] as string;
+
+    if (quote === "'") {
+      if (char === "'") quote = null;
+      else current += char;
+    } else if (char === "\\") {
+      const next = input[i + 1];
+      if (next === undefined) {
+        throw new ArgsParseError("trailing backslash");
+      }
+      current += next;
+      inWord = true;
+      i++;
+    } else if (quote === '"') {
+      if (char === '"') quote = null;
+      else current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inWord = true;
+    } else if (/\s/.test(char)) {
+      if (inWord) words.push(current);
+      current = "";
+      inWord = false;
+    } else {
+      current += char;
+      inWord = true;
+    }
+  }
+
+  if (quote) {
+    throw new ArgsParseError(`unterminated ${quote} quote`);
+  }
+  if (inWord) words.push(current);
+
+  return words;
+}
+
+/**
+ * A single rclone flag or mergerfs option, keyed by name for merging
+ */
+export interface MountOption {
+  name: string;
+  value: string | null;
+  /** Drop this option from the defaults instead of setting it */
+  remove: boolean;
+  /** Whether the value was written as `--flag=value` */
+  inline: boolean;
+}
+
+/** Prefix marking a flag or option that should be removed from the defaults */
+export const REMOVE_PREFIX = "!";
+
+function stripRemove(word: string): [string, boolean] {
+  return word.startsWith(REMOVE_PREFIX)
+    ? [word.slice(REMOVE_PREFIX.length), true]
+    : [word, false];
+}
+
+/**
+ * Parse rclone flags: every word must be a flag or the single value that
+ * follows one. `!--flag` removes a default flag.
+ */
+export function parseRcloneArgs(args: string[]): MountOption[] {
+  const options: MountOption[] = [];
+  let previous: MountOption | null = null;
+
+  for (const arg of args) {
+    const [word, remove] = stripRemove(arg);
+
+    if (word.startsWith("-")) {
+      if (!/^--?[A-Za-z0-9]/.test(word)) {
+        throw new ArgsParseError(`"${arg}" is not a valid flag`);
+      }
+      const equals = word.indexOf("=");
+      const inline = equals !== -1;
+      previous = {
+        name: inline ? word.slice(0, equals) : word,
+        value: inline ? word.slice(equals + 1) : null,
+        remove,
+        inline,
+      };
+      if (remove && inline) {
+        throw new ArgsParseError(`"${arg}" cannot both remove and set a value`);
+      }
+      options.push(previous);
+    } else if (remove) {
+      throw new ArgsParseError(`"${arg}" is not a flag`);
+    } else if (!previous || previous.value !== null || previous.remove) {
+      throw new ArgsParseError(
+        `"${arg}" is not a flag; rclone mount arguments must start with --`
+      );
+    } else {
+      previous.value = arg;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Parse mergerfs arguments: only `-o <options>` pairs are allowed, since any
+ * other word would be taken as an extra branch or mount point. `-o !name`
+ * removes a default option.
+ */
+export function parseMergerfsArgs(args: string[]): MountOption[] {
+  const options: MountOption[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] as string;
+    let list: string | undefined;
+
+    if (arg === "-o") {
+      list = args[++i];
+      if (list === undefined) {
+        throw new ArgsParseError("-o is missing its option list");
+      }
+    } else if (arg.startsWith("-o")) {
+      list = arg.slice(2);
+    } else {
+      throw new ArgsParseError(
+        `"${arg}" is not allowed; mergerfs arguments must be -o <options>`
+      );
+    }
+
+    for (const item of list.split(",")) {
+      const [option, remove] = stripRemove(item);
+      const match = option.match(/^([A-Za-z0-9_.]+)(?:=(.+))?$/);
+      if (!match?.[1] || (remove && match[2] !== undefined)) {
+        throw new ArgsParseError(`"${item}" is not a valid mergerfs option`);
+      }
+      options.push({
+        name: match[1],
+        value: match[2] ?? null,
+        remove,
+        inline: true,
+      });
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Merge user options into the defaults by name. Overridden defaults keep
+ * their position, new options are appended and removed ones are dropped.
+ */
+export function mergeOptions(
+  defaults: MountOption[],
+  overrides: MountOption[]
+): MountOption[] {
+  const merged = [...defaults];
+
+  for (const override of overrides) {
+    const index = merged.findIndex((option) => option.name === override.name);
+    if (override.remove) {
+      if (index !== -1) merged.splice(index, 1);
+    } else if (index !== -1) {
+      merged[index] = override;
+    } else {
+      merged.push(override);
+    }
+  }
+
+  return merged;
+}
+
+export function rcloneOptionsToArgs(options: MountOption[]): string[] {
+  return options.flatMap(({ name, value, inline }) => {
+    if (value === null) return [name];
+    return inline ? [`${name}=${value}`] : [name, value];
+  });
+}
+
+export function mergerfsOptionsToArgs(options: MountOption[]): string[] {
+  return options.flatMap(({ name, value }) => [
+    "-o",
+    value === null ? name : `${name}=${value}`,
+  ]);
+}
+
+/**
+ * Quote a word for safe use in a POSIX shell command line
+ */
+export function shellQuote(word: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(word)) return word;
+  return `'${word.replace(/'/g, `'\\''`)}'`;
+}
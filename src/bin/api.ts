@@ -0,0 +1,28 @@
+import { createApiServer } from "../api/server.js";
+import { getResolvedConfig } from "../config/load.js";
+import { createLogger } from "../log.js";
+
+/**
+ * Entry point for the `api` supervisord program
+ */
+
+const config = await getResolvedConfig();
+const log = createLogger("api", { level: config.logging.level });
+const { host, port, token } = config.api;
+
+const server = createApiServer({ config, log });
+
+server.listen(port, host, () => {
+  log.info(`Management API listening on http://${host}:${port}`, {
+    host,
+    port,
+    authenticated: Boolean(token),
+  });
+});
+
+for (const signal of ["SIGTERM", "SIGINT"] as const) {
+  process.on(signal, () => {
+    log.info(`Received ${signal}, shutting down management API`);
+    server.close(() => process.exit(0));
+  });
+}
@@ -0,0 +1,32 @@
+import { getResolvedConfig } from "../config/load.js";
+import {
+  bandwidthAt,
+  describeBandwidthSchedule,
+  formatRclone,
+} from "../move/bandwidth.js";
+
+/**
+ * Show the move job's bandwidth schedule and the limit in force right now.
+ * With --rclone, print only the current limit in rclone --bwlimit form, as
+ * move-job.sh passes it to each transfer.
+ *
+ * Usage: bandwidth.js [--rclone]
+ */
+
+const args = process.argv.slice(2);
+if (args.some((arg) => arg !== "--rclone")) {
+  console.error("Usage: bandwidth.js [--rclone]");
+  process.exit(1);
+}
+
+const config = await getResolvedConfig();
+const { bwlimit, transfers, checkers } = config.move;
+const current = formatRclone(bandwidthAt(bwlimit));
+
+if (args.includes("--rclone")) {
+  console.log(current);
+} else {
+  console.log(`Schedule: ${describeBandwidthSchedule(bwlimit)}`);
+  console.log(`Current limit: ${current}`);
+  console.log(`Transfers: ${transfers}, checkers: ${checkers}`);
+}
@@ -0,0 +1,54 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { checkEnvironment } from "../config/environment.js";
+import { configToShell, formatIssues, validateConfig } from "../config/load.js";
+import { formatDuration } from "../duration.js";
+import { createLogger } from "../log.js";
+import { RESOLVED_CONFIG_FILE, RESOLVED_ENV_FILE } from "../paths.js";
+import { DOCKER_STOP_TIMEOUT } from "../shutdown.js";
+import { notifyWebhooks } from "../webhooks.js";
+
+/**
+ * Validate the container configuration before supervisord starts. Every
+ * problem is reported in a single message, sent to the config.invalid
+ * webhook, and the process exits non-zero if there are any. On success the
+ * resolved configuration is written to /run/neomount as config.json and as
+ * config.env for the shell scripts.
+ */
+
+const { config, issues, file } = await validateConfig();
+
+// The remote lookup is meaningless if the remote name itself is invalid
+if (config.rclone.remote) {
+  issues.push(...(await checkEnvironment(config)));
+}
+
+if (issues.length > 0) {
+  console.error(`ERROR: ${formatIssues(issues)}`);
+  // Webhooks whose own settings are valid still hear about the problem
+  // Plain text, since the logs service has not started yet
+  const log = createLogger("check-config", { format: "text" });
+  await notifyWebhooks(config, log, "config.invalid", formatIssues(issues), {
+    problems: issues.length,
+    issues,
+  });
+  process.exit(1);
+}
+
+await mkdir(dirname(RESOLVED_CONFIG_FILE), { recursive: true });
+await writeFile(RESOLVED_CONFIG_FILE, JSON.stringify(config, null, 2) + "\n");
+await writeFile(RESOLVED_ENV_FILE, configToShell(config) + "\n");
+
+console.log(`Config file: ${file ?? "none"}`);
+console.log("Configuration validated successfully");
+
+// The grace period cannot be seen from inside the container
+const { timeout } = config.shutdown;
+if (timeout > DOCKER_STOP_TIMEOUT) {
+  console.log(
+    `WARNING: SHUTDOWN_TIMEOUT is ${formatDuration(timeout)}, longer than ` +
+      `the ${formatDuration(DOCKER_STOP_TIMEOUT)} docker stop waits by ` +
+      "default; set stop_grace_period or --stop-timeout above it, or the " +
+      "container is killed before it has shut down"
+  );
+}
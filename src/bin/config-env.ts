@@ -0,0 +1,19 @@
+import {
+  ConfigValidationError,
+  configToShell,
+  getResolvedConfig,
+} from "../config/load.js";
+
+/**
+ * Print the resolved configuration as shell exports for load-config.sh,
+ * including any settings the caller changed, validated and normalised the
+ * same way as at container start
+ */
+
+try {
+  console.log(configToShell(await getResolvedConfig()));
+} catch (error) {
+  if (!(error instanceof ConfigValidationError)) throw error;
+  console.error(`ERROR: ${error.message}`);
+  process.exit(1);
+}
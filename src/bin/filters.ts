@@ -0,0 +1,155 @@
+import { readFile } from "node:fs/promises";
+import { relative } from "node:path";
+import { getResolvedConfig } from "../config/load.js";
+import {
+  createFilterMatcher,
+  DEFAULT_MOVE_FILTERS,
+  effectiveFilters,
+  formatFilterRule,
+  type FilterRule,
+} from "../filters.js";
+import { listPending, type PendingFile } from "../local-usage.js";
+import {
+  buildRouteFiles,
+  buildRouteFilters,
+  DEFAULT_ROUTE,
+  findRoute,
+  getMoveRoutes,
+} from "../move/routes.js";
+import { findFilesOpenForWriting } from "../open-files.js";
+import { formatBytes } from "../size.js";
+
+/**
+ * Show the move job's filter rules and which local files each one matches,
+ * without moving anything. With --rclone, print the rclone --filter-from
+ * rules move-job.sh uses for one route (the default route unless --route is
+ * given) instead. With --files-from, print the rclone --files-from-raw list
+ * for one route of a move started with a file list (MOVE_FILES_FROM).
+ *
+ * Files open for writing are deferred to the next run, with an exclude rule
+ * ahead of all others or by leaving them out of the list, and each one is
+ * logged to stderr.
+ *
+ * Usage: filters.js [--json | --rclone [--route NAME] | --files-from [--route NAME]]
+ */
+
+const USAGE =
+  "Usage: filters.js [--json | --rclone [--route NAME] | --files-from [--route NAME]]";
+const MODES = ["--json", "--rclone", "--files-from"];
+
+interface RuleMatches {
+  rule: string;
+  action: FilterRule["action"];
+  builtIn: boolean;
+  files: string[];
+}
+
+const args = process.argv.slice(2);
+const routeIndex = args.indexOf("--route");
+const routeName =
+  routeIndex === -1 ? DEFAULT_ROUTE : args.splice(routeIndex, 2)[1];
+if (routeName === undefined || args.some((arg) => !MODES.includes(arg))) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+const config = await getResolvedConfig();
+const rules = effectiveFilters(config.move.filters);
+
+const deferred = new Map<string, string>();
+for (const file of await findFilesOpenForWriting(config.localPath)) {
+  const path = relative(config.localPath, file.path);
+  if (deferred.has(path)) continue;
+  deferred.set(path, `open for writing by ${file.command} (pid ${file.pid})`);
+}
+
+if (args.includes("--rclone") || args.includes("--files-from")) {
+  const routes = getMoveRoutes(config);
+  const route = routes.find((route) => route.name === routeName);
+  if (!route) {
+    console.error(`Unknown route: ${routeName}`);
+    process.exit(1);
+  }
+
+  for (const [path, reason] of deferred) {
+    if (findRoute(routes, path) !== route) continue;
+    console.error(`Skipping ${path}: ${reason}`);
+  }
+
+  let lines: string[];
+  if (args.includes("--files-from")) {
+    const filesFrom = process.env.MOVE_FILES_FROM;
+    if (!filesFrom) {
+      console.error("MOVE_FILES_FROM is not set");
+      process.exit(1);
+    }
+    const files = (await readFile(filesFrom, "utf8")).split("\n");
+    lines = buildRouteFiles(config, route, files.filter(Boolean), [
+      ...deferred.keys(),
+    ]);
+  } else {
+    lines = buildRouteFilters(config, route, [...deferred.keys()]);
+  }
+  process.stdout.write(lines.map((line) => `${line}\n`).join(""));
+  process.exit(0);
+}
+
+const match = createFilterMatcher(rules);
+const matches = new Map<FilterRule, RuleMatches>(
+  rules.map((rule) => [
+    rule,
+    {
+      rule: formatFilterRule(rule),
+      action: rule.action,
+      builtIn: DEFAULT_MOVE_FILTERS.includes(rule),
+      files: [],
+    },
+  ])
+);
+const unmatched: PendingFile[] = [];
+let movedBytes = 0;
+
+const files = await listPending(config.localPath);
+files.sort((a, b) => a.path.localeCompare(b.path));
+for (const file of files) {
+  if (deferred.has(file.path)) continue;
+  const rule = match(file.path);
+  if (rule) matches.get(rule)?.files.push(file.path);
+  else unmatched.push(file);
+  if (rule?.action !== "exclude") movedBytes += file.bytes;
+}
+
+if (args.includes("--json")) {
+  console.log(
+    JSON.stringify(
+      {
+        localPath: config.localPath,
+        rules: [...matches.values()],
+        deferred: [...deferred].map(([path, reason]) => ({ path, reason })),
+        unmatched: unmatched.map((file) => file.path),
+      },
+      null,
+      2
+    )
+  );
+  process.exit(0);
+}
+
+console.log(`Filter rules for ${config.localPath} (first match wins):`);
+for (const { rule, builtIn, files } of matches.values()) {
+  console.log(`\n  ${rule}${builtIn ? "  (built-in)" : ""}: ${files.length}`);
+  for (const file of files) console.log(`      ${file}`);
+}
+console.log(`\n  No rule matched (moved): ${unmatched.length}`);
+for (const file of unmatched) console.log(`      ${file.path}`);
+
+console.log(`\n  Open for writing (next run): ${deferred.size}`);
+for (const [path, reason] of deferred) console.log(`      ${path}: ${reason}`);
+
+const excluded = [...matches.values()]
+  .filter((entry) => entry.action === "exclude")
+  .reduce((sum, entry) => sum + entry.files.length, deferred.size);
+console.log(
+  `\n${files.length - excluded} of ${files.length} files ` +
+    `(${formatBytes(movedBytes)}) would be moved`
+);
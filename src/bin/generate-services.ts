@@ -0,0 +1,44 @@
+import { readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getResolvedConfig } from "../config/load.js";
+import { SERVICES_DIR } from "../paths.js";
+import { getRemoteMounts, PRIMARY_PROGRAM } from "../remotes.js";
+
+/**
+ * Write a supervisord program for every extra remote, generated from the
+ * `rclone` program in services/rclone.conf. Programs generated for a previous
+ * configuration are removed first.
+ */
+
+const TEMPLATE = join(SERVICES_DIR, `${PRIMARY_PROGRAM}.conf`);
+const GENERATED_PREFIX = `${PRIMARY_PROGRAM}-`;
+
+function renderProgram(template: string, program: string): string {
+  return template
+    .replace(`[program:${PRIMARY_PROGRAM}]`, `[program:${program}]`)
+    .replace(/^command=(.*)$/m, `command=$1 ${program}`)
+    .replace(
+      new RegExp(`/${PRIMARY_PROGRAM}(_error)?\\.log`, "g"),
+      `/${program}$1.log`
+    );
+}
+
+const config = await getResolvedConfig();
+const template = await readFile(TEMPLATE, "utf8");
+
+for (const entry of await readdir(SERVICES_DIR)) {
+  if (entry.startsWith(GENERATED_PREFIX) && entry.endsWith(".conf")) {
+    await rm(join(SERVICES_DIR, entry));
+  }
+}
+
+for (const mount of getRemoteMounts(config)) {
+  if (mount.program === PRIMARY_PROGRAM) continue;
+  await writeFile(
+    join(SERVICES_DIR, `${mount.program}.conf`),
+    renderProgram(template, mount.program)
+  );
+  console.log(
+    `Generated program ${mount.program} for ${mount.remote}:${mount.remotePath}`
+  );
+}
@@ -0,0 +1,46 @@
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { getResolvedConfig } from "../config/load.js";
+import { checkHealth, type HealthReport } from "../health.js";
+import { HEALTH_REPORT } from "../paths.js";
+
+/**
+ * Container health check, run by the Dockerfile HEALTHCHECK. Writes the
+ * report to /run/neomount/health.json and exits 1 only when unhealthy, so a
+ * degraded container still counts as healthy to Docker.
+ *
+ * Usage: health.js [--json]
+ */
+
+async function writeReport(report: HealthReport): Promise<void> {
+  await mkdir(dirname(HEALTH_REPORT), { recursive: true });
+  const temp = `${HEALTH_REPORT}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(report, null, 2) + "\n");
+  await rename(temp, HEALTH_REPORT);
+}
+
+const json = process.argv.includes("--json");
+
+let report: HealthReport;
+try {
+  report = await checkHealth(await getResolvedConfig());
+  await writeReport(report);
+} catch (error) {
+  console.error(`ERROR: ${(error as Error).message}`);
+  process.exit(1);
+}
+
+if (json) {
+  console.log(JSON.stringify(report, null, 2));
+} else {
+  console.log(report.status);
+  for (const check of report.checks) {
+    console.log(
+      `  ${check.status.padEnd(9)}  ${check.check.padEnd(7)}  ` +
+        `${check.target}: ${check.message}`
+    );
+  }
+}
+
+// Probes abandoned on a hung mount would otherwise keep the process alive
+process.exit(report.status === "unhealthy" ? 1 : 0);
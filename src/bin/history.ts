@@ -0,0 +1,86 @@
+import { formatDuration } from "../duration.js";
+import {
+  parseHistoryQuery,
+  readHistory,
+  type HistoryEntry,
+} from "../move/history.js";
+import { formatBytes } from "../size.js";
+
+/**
+ * Print the move run history.
+ *
+ * Usage: history.js [--limit N] [--status STATUS] [--since DATE] [--json]
+ */
+
+const DEFAULT_LIMIT = "20";
+
+function formatEntry(entry: HistoryEntry): string {
+  const duration = entry.finishedAt
+    ? formatDuration(Date.parse(entry.finishedAt) - Date.parse(entry.startedAt))
+    : "-";
+  const stats = entry.stats
+    ? `${entry.stats.files} files, ${formatBytes(entry.stats.bytes)}, ` +
+      `${entry.stats.errors} errors, ${entry.stats.retries} retries`
+    : "";
+  const line = [
+    entry.startedAt,
+    entry.status.padEnd(9),
+    entry.trigger.padEnd(8),
+    duration.padStart(8),
+    stats,
+  ].join("  ");
+
+  // Runs recorded before routing was added have no route results
+  const routes = (entry.routes ?? []).map(
+    (route) =>
+      `    route ${route.name}: ${route.status}` +
+      (route.stats
+        ? `, ${route.stats.files} files, ${formatBytes(route.stats.bytes)}`
+        : "") +
+      (route.verification
+        ? `, ${route.verification.verified} verified, ` +
+          `${route.verification.reuploaded} re-uploaded, ` +
+          `${route.verification.quarantined} quarantined`
+        : "")
+  );
+  const lastError = entry.stats?.lastError
+    ? [`    last error: ${entry.stats.lastError}`]
+    : [];
+
+  return [line, ...routes, ...lastError].join("\n");
+}
+
+const args = process.argv.slice(2);
+const json = args.includes("--json");
+const params = new URLSearchParams({ limit: DEFAULT_LIMIT });
+
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i] as string;
+  if (arg === "--json") continue;
+
+  const value = args[i + 1];
+  if (!["--limit", "--status", "--since"].includes(arg) || !value) {
+    console.error(
+      "Usage: history.js [--limit N] [--status STATUS] [--since DATE] [--json]"
+    );
+    process.exit(1);
+  }
+  params.set(arg.slice(2), value);
+  i++;
+}
+
+let entries: HistoryEntry[];
+try {
+  entries = await readHistory(parseHistoryQuery(params));
+} catch (error) {
+  console.error(`ERROR: ${(error as Error).message}`);
+  process.exit(1);
+}
+
+if (json) {
+  console.log(JSON.stringify(entries, null, 2));
+} else if (entries.length === 0) {
+  console.log("No move runs recorded");
+} else {
+  entries.forEach((entry) => console.log(formatEntry(entry)));
+}
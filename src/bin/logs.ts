@@ -0,0 +1,22 @@
+import { getResolvedConfig } from "../config/load.js";
+import { createLogger } from "../log.js";
+import { startLogCollector } from "../logging/collector.js";
+
+/**
+ * Entry point for the `logs` supervisord program, whose stdout is the
+ * container's
+ */
+
+const config = await getResolvedConfig();
+const log = createLogger("logs", { level: config.logging.level });
+
+const collector = startLogCollector({ level: config.logging.level });
+log.info("Collecting service logs", { level: config.logging.level });
+
+for (const signal of ["SIGTERM", "SIGINT"] as const) {
+  process.on(signal, () => {
+    log.info(`Received ${signal}, stopping log collection`);
+    collector.stop();
+    process.exit(0);
+  });
+}
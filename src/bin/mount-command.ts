@@ -0,0 +1,40 @@
+import { getResolvedConfig } from "../config/load.js";
+import {
+  buildMergerfsMountCommand,
+  buildRcloneMountCommand,
+} from "../mount-commands.js";
+import { getRemoteMounts, PRIMARY_PROGRAM } from "../remotes.js";
+
+/**
+ * Print the effective mount command for the mount scripts, one word per
+ * NUL-terminated record so it can be read with `mapfile -d ''`. `rclone`
+ * takes the program name of the remote to mount; `remotes` prints the mount
+ * path of every remote instead.
+ *
+ * Usage: mount-command.js rclone [PROGRAM] | mergerfs | remotes
+ */
+
+const USAGE = "Usage: mount-command.js rclone [PROGRAM] | mergerfs | remotes";
+
+const [name, program = PRIMARY_PROGRAM] = process.argv.slice(2);
+const config = await getResolvedConfig();
+const mounts = getRemoteMounts(config);
+
+let words: string[];
+if (name === "rclone") {
+  const mount = mounts.find((mount) => mount.program === program);
+  if (!mount) {
+    console.error(`Unknown remote program: ${program}`);
+    process.exit(1);
+  }
+  words = buildRcloneMountCommand(config, mount);
+} else if (name === "mergerfs") {
+  words = buildMergerfsMountCommand(config);
+} else if (name === "remotes") {
+  words = mounts.map((mount) => mount.mountPath);
+} else {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+process.stdout.write(words.map((word) => `${word}\0`).join(""));
@@ -0,0 +1,15 @@
+import { getResolvedConfig } from "../config/load.js";
+import { getMoveRoutes } from "../move/routes.js";
+
+/**
+ * Print the move job's routes for move-job.sh as NUL-terminated
+ * name/source/destination triples, so they can be read with `mapfile -d ''`
+ */
+
+const routes = getMoveRoutes(await getResolvedConfig());
+process.stdout.write(
+  routes
+    .flatMap((route) => [route.name, route.source, route.destination])
+    .map((word) => `${word}\0`)
+    .join("")
+);
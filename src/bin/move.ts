@@ -0,0 +1,80 @@
+import { getResolvedConfig } from "../config/load.js";
+import { createLogger } from "../log.js";
+import { MovePlanError, planMove, type MovePlan } from "../move/plan.js";
+import { MoveInProgressError, startMove } from "../move/runner.js";
+import { formatBytes } from "../size.js";
+
+/**
+ * Run the move job once and record its result, so manual runs show up in
+ * the management API alongside scheduled ones. With --dry-run, print the
+ * plan of what the move would do instead.
+ *
+ * Usage: move.js [--dry-run [--json]]
+ */
+
+const USAGE = "Usage: move.js [--dry-run [--json]]";
+
+function printPlan(plan: MovePlan): void {
+  if (plan.files.length === 0) {
+    console.log("Nothing to move");
+    return;
+  }
+  for (const file of plan.files) {
+    console.log(
+      [
+        file.action.padEnd(6),
+        formatBytes(file.bytes).padStart(10),
+        `${file.path} -> ${file.destination}` +
+          (file.overwrite ? " (overwrites)" : ""),
+      ].join("  ")
+    );
+  }
+  console.log(
+    `${plan.files.length} files, ${formatBytes(plan.totalBytes)} to upload, ` +
+      `${plan.overwrites} overwrites`
+  );
+}
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const json = args.includes("--json");
+if (
+  args.some((arg) => arg !== "--dry-run" && arg !== "--json") ||
+  (json && !dryRun)
+) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+if (dryRun) {
+  try {
+    const plan = await planMove(await getResolvedConfig());
+    if (json) console.log(JSON.stringify(plan, null, 2));
+    else printPlan(plan);
+    process.exit(0);
+  } catch (error) {
+    console.error(`ERROR: ${(error as Error).message}`);
+    if (error instanceof MovePlanError) {
+      error.output.forEach((line) => console.error(line));
+    }
+    process.exit(1);
+  }
+}
+
+try {
+  const config = await getResolvedConfig();
+  const log = createLogger("move", {
+    level: config.logging.level,
+    format: "text",
+  });
+  const { done } = await startMove("manual", { log, echo: true });
+  const run = await done;
+  // Exits once the move.finished webhook has been delivered
+  process.exitCode = run.exitCode ?? 1;
+} catch (error) {
+  if (error instanceof MoveInProgressError) {
+    console.error(`ERROR: ${error.message}`);
+    process.exit(1);
+  }
+  throw error;
+}
@@ -0,0 +1,66 @@
+#!/usr/local/bin/node
+import { spawn } from "node:child_process";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { configCommand } from "../cli/config.js";
+import { doctorCommand } from "../cli/doctor.js";
+import { logsCommand } from "../cli/logs.js";
+import { statusCommand } from "../cli/status.js";
+import { getResolvedConfig } from "../config/load.js";
+
+/**
+ * The `neomount` command for day-to-day operations inside the container.
+ * `move` and `history` run move.js and history.js, which take the same
+ * options.
+ *
+ * Usage: neomount COMMAND [OPTIONS]
+ */
+
+const USAGE = `Usage: neomount COMMAND [OPTIONS]
+
+Commands:
+  status [--json]                  Programs, mounts, pending uploads and the last move
+  move [--dry-run [--json]]        Run the move job now, or show what it would move
+  logs SERVICE [-f] [-n N]         Show, or follow, the logs of a service
+  history [--limit N] [--status STATUS] [--since DATE] [--json]
+                                   Past move runs
+  config [--json]                  The resolved configuration, without secrets
+  doctor [--json]                  Diagnose common problems`;
+
+/** Run another entry point with the same options, and pass on its exit code */
+function runScript(script: string, args: string[]): Promise<number> {
+  const path = join(dirname(fileURLToPath(import.meta.url)), script);
+  const child = spawn(process.execPath, [path, ...args], { stdio: "inherit" });
+  return new Promise((resolve) => {
+    child.on("error", (error) => {
+      console.error(`ERROR: ${error.message}`);
+      resolve(1);
+    });
+    child.on("close", (code) => resolve(code ?? 1));
+  });
+}
+
+const [command, ...args] = process.argv.slice(2);
+
+switch (command) {
+  case "status":
+    process.exit(await statusCommand(await getResolvedConfig(), args));
+  case "move":
+    process.exit(await runScript("move.js", args));
+  case "logs":
+    process.exit(await logsCommand(args));
+  case "history":
+    process.exit(await runScript("history.js", args));
+  case "config":
+    process.exit(configCommand(await getResolvedConfig(), args));
+  case "doctor":
+    process.exit(await doctorCommand(await getResolvedConfig(), args));
+  case "help":
+  case "--help":
+  case "-h":
+    console.log(USAGE);
+    process.exit(0);
+  default:
+    console.error(USAGE);
+    process.exit(1);
+}
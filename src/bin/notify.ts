@@ -0,0 +1,37 @@
+import { getResolvedConfig } from "../config/load.js";
+import { createLogger } from "../log.js";
+import { notifyWebhooks } from "../webhooks.js";
+
+/**
+ * Send a test event to every configured webhook and report the outcome of
+ * each delivery, retries included.
+ *
+ * Usage: notify.js --test
+ */
+
+if (process.argv.slice(2).join(" ") !== "--test") {
+  console.error("Usage: notify.js --test");
+  process.exit(1);
+}
+
+const config = await getResolvedConfig();
+if (config.webhooks.urls.length === 0) {
+  console.error("No webhooks configured (WEBHOOK_URLS)");
+  process.exit(1);
+}
+
+const results = await notifyWebhooks(
+  config,
+  createLogger("notify", { level: config.logging.level, format: "text" }),
+  "test",
+  "Test notification from neomount"
+);
+results.forEach((result, i) => {
+  const hook = `Webhook ${i + 1} (${result.format}, ${result.target})`;
+  console.log(
+    result.ok
+      ? `${hook}: delivered`
+      : `${hook}: failed after ${result.attempts} attempts: ${result.error}`
+  );
+});
+process.exit(results.every((result) => result.ok) ? 0 : 1);
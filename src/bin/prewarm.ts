@@ -0,0 +1,108 @@
+import { readFile } from "node:fs/promises";
+import { getResolvedConfig } from "../config/load.js";
+import { createLogger } from "../log.js";
+import {
+  DEFAULT_PREWARM_CONCURRENCY,
+  PrewarmError,
+  startPrewarm,
+  type PrewarmProgress,
+  type StartedPrewarm,
+} from "../prewarm.js";
+import { formatBytes, parseSize } from "../size.js";
+
+/**
+ * Read files under MERGED_PATH into the rclone VFS cache ahead of playback.
+ * Patterns are globs relative to MERGED_PATH; paths listed in --from FILE
+ * (one per line, `-` for stdin) are matched literally. Exits 1 if any file
+ * could not be read.
+ *
+ * Usage: prewarm.js [--concurrency N] [--max-bytes SIZE] [--from FILE]
+ *                   [PATTERN...]
+ */
+
+const USAGE =
+  "Usage: prewarm.js [--concurrency N] [--max-bytes SIZE] [--from FILE] [PATTERN...]";
+
+/** How often the bytes read so far are printed */
+const PROGRESS_INTERVAL = 10_000;
+
+function summary(progress: PrewarmProgress): string {
+  return (
+    `Warmed ${progress.warmedFiles} of ${progress.files} files ` +
+    `(${formatBytes(progress.readBytes)}), ${progress.failed.length} failed, ` +
+    `${progress.skippedLocal} already local, ` +
+    `${progress.skippedOverLimit} over the byte limit`
+  );
+}
+
+const args = process.argv.slice(2);
+const patterns: string[] = [];
+let concurrency = DEFAULT_PREWARM_CONCURRENCY;
+let maxBytes: number | null = null;
+let from: string | undefined;
+
+try {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] as string;
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined) throw new Error(`${arg} needs a value`);
+      return next;
+    };
+    if (arg === "--concurrency") {
+      const raw = value();
+      concurrency = Number(raw);
+      if (!/^\d+$/.test(raw) || concurrency < 1) {
+        throw new Error(`invalid concurrency "${raw}"`);
+      }
+    } else if (arg === "--max-bytes") {
+      maxBytes = parseSize(value());
+    } else if (arg === "--from") {
+      from = value();
+    } else if (arg.startsWith("--")) {
+      throw new Error(`unknown option ${arg}`);
+    } else {
+      patterns.push(arg);
+    }
+  }
+} catch (error) {
+  console.error(`ERROR: ${(error as Error).message}`);
+  console.error(USAGE);
+  process.exit(1);
+}
+
+const paths = from
+  ? (await readFile(from === "-" ? "/dev/stdin" : from, "utf8"))
+      .split("\n")
+      .filter((line) => line.trim())
+  : [];
+
+const config = await getResolvedConfig();
+let started: StartedPrewarm;
+try {
+  started = startPrewarm(
+    config,
+    { patterns, paths, concurrency, maxBytes },
+    createLogger("prewarm", { level: config.logging.level, format: "text" })
+  );
+} catch (error) {
+  if (error instanceof PrewarmError) {
+    console.error(`ERROR: ${error.message}`);
+    console.error(USAGE);
+    process.exit(1);
+  }
+  throw error;
+}
+
+const { progress, done } = started;
+const timer = setInterval(() => {
+  if (progress.status !== "reading") return;
+  console.log(
+    `Read ${formatBytes(progress.readBytes)} of ${formatBytes(progress.bytes)}`
+  );
+}, PROGRESS_INTERVAL);
+
+const result = await done;
+clearInterval(timer);
+console.log(summary(result));
+process.exit(result.failed.length > 0 || result.error ? 1 : 0);
@@ -0,0 +1,141 @@
+import { getResolvedConfig } from "../config/load.js";
+import { nextFireTimes, parseCron } from "../cron.js";
+import { formatDuration } from "../duration.js";
+import { effectiveFilters } from "../filters.js";
+import { createLogger } from "../log.js";
+import {
+  describeBandwidthSchedule,
+  startBandwidthController,
+  type BandwidthController,
+} from "../move/bandwidth.js";
+import {
+  startPressureMonitor,
+  type PressureMonitor,
+} from "../move/pressure.js";
+import { startScheduler } from "../move/scheduler.js";
+import { startWatcher, type Watcher } from "../move/watch.js";
+import { MOVE_RC_SOCKET } from "../paths.js";
+import { formatBytes } from "../size.js";
+import { notifyWebhooks } from "../webhooks.js";
+
+/**
+ * Entry point for the `scheduler` supervisord program
+ */
+
+/** Number of upcoming fire times logged at startup */
+const PREVIEW_COUNT = 5;
+
+const config = await getResolvedConfig();
+const {
+  schedule,
+  jitter,
+  minAge,
+  order,
+  highWater,
+  lowWater,
+  minFree,
+  pressureInterval,
+  bwlimit,
+} = config.move;
+const log = createLogger("scheduler", { level: config.logging.level });
+
+log.info(`Move schedule: ${schedule}`);
+if (jitter > 0) {
+  log.info(`Random jitter: up to ${formatDuration(jitter)}`);
+}
+if (minAge > 0) {
+  log.info(`Minimum file age: ${formatDuration(minAge)}`);
+}
+if (order !== "none") {
+  log.info(`Move order: ${order}`);
+}
+log.info(`Next ${PREVIEW_COUNT} fire times:`);
+for (const time of nextFireTimes(
+  parseCron(schedule),
+  new Date(),
+  PREVIEW_COUNT
+)) {
+  log.info(`  ${time.toISOString()}`);
+}
+
+const scheduler = startScheduler({ schedule, jitter, log });
+
+let pressure: PressureMonitor | null = null;
+if (highWater !== null && lowWater !== null) {
+  log.info(
+    `Pressure moves: above ${Math.round(highWater * 100)}% local usage, ` +
+      `down to ${Math.round(lowWater * 100)}%`
+  );
+}
+if (minFree !== null) {
+  log.info(`Emergency moves: below ${formatBytes(minFree)} free`);
+}
+if ((highWater !== null && lowWater !== null) || minFree !== null) {
+  log.info(
+    `Checking local disk usage every ${formatDuration(pressureInterval)}`
+  );
+  pressure = startPressureMonitor({
+    localPath: config.localPath,
+    highWater,
+    lowWater,
+    minFree,
+    interval: pressureInterval,
+    minAge,
+    filters: effectiveFilters(config.move.filters),
+    log,
+    onLowSpace: ({ path, freeBytes, minFree, files, bytes }) => {
+      void notifyWebhooks(
+        config,
+        log,
+        "disk.low",
+        `Free space on ${path} is down to ${formatBytes(freeBytes)}, ` +
+          `below ${formatBytes(minFree)}; ` +
+          (files > 0
+            ? `moving ${files} files (${formatBytes(bytes)})`
+            : "no files are eligible to move"),
+        { path, freeBytes, minFree, files, bytes }
+      );
+    },
+  });
+}
+
+let watcher: Watcher | null = null;
+if (config.move.watch) {
+  const { watchSettle, watchBatch, watchInterval } = config.move;
+  log.info(
+    `Watch mode: moving files once unchanged for ` +
+      `${formatDuration(watchSettle)}, up to ${watchBatch} files every ` +
+      formatDuration(watchInterval)
+  );
+  watcher = startWatcher({
+    localPath: config.localPath,
+    settle: watchSettle,
+    minAge,
+    batch: watchBatch,
+    interval: watchInterval,
+    filters: effectiveFilters(config.move.filters),
+    log: createLogger("watch", { level: config.logging.level }),
+  });
+}
+
+// Every move transfer, however it was started, is adjusted to the schedule
+let bandwidth: BandwidthController | null = null;
+if (bwlimit.windows.length > 0) {
+  log.info(`Move bandwidth: ${describeBandwidthSchedule(bwlimit)}`);
+  bandwidth = startBandwidthController({
+    schedule: bwlimit,
+    socket: MOVE_RC_SOCKET,
+    log,
+  });
+}
+
+for (const signal of ["SIGTERM", "SIGINT"] as const) {
+  process.on(signal, () => {
+    log.info(`Received ${signal}, stopping scheduler`);
+    scheduler.stop();
+    pressure?.stop();
+    watcher?.stop();
+    bandwidth?.stop();
+    process.exit(0);
+  });
+}
@@ -0,0 +1,18 @@
+import { getResolvedConfig } from "../config/load.js";
+import { createLogger } from "../log.js";
+import { shutdown } from "../shutdown.js";
+
+/**
+ * Run by the entrypoint when the container is asked to stop, before it
+ * stops supervisord. Logs each step to stdout, which is the container's.
+ */
+
+const config = await getResolvedConfig();
+const log = createLogger("shutdown", { level: config.logging.level });
+
+try {
+  await shutdown(config, log);
+} catch (error) {
+  log.error("Shutdown failed", { error });
+  process.exit(1);
+}
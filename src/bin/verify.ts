@@ -0,0 +1,88 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getResolvedConfig } from "../config/load.js";
+import { QUARANTINE_DIR } from "../filters.js";
+import { bandwidthAt, formatRclone } from "../move/bandwidth.js";
+import { getMoveRoutes } from "../move/routes.js";
+import { verifyFiles } from "../move/verify.js";
+import { MOVE_RC_SOCKET } from "../paths.js";
+
+/**
+ * Verification phase of move-job.sh when MOVE_VERIFY is on: compare the
+ * files a route copied with the remote, delete the ones that match and
+ * quarantine the ones that differ under LOCAL_PATH/.quarantine/RUN. Exits 1 if any file
+ * did not match on the first check, so the run is marked failed.
+ *
+ * Usage: verify.js --route NAME --files FILE --run RUN
+ */
+
+const USAGE = "Usage: verify.js --route NAME --files FILE --run RUN";
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+};
+const routeName = option("--route");
+const filesFrom = option("--files");
+const run = option("--run");
+if (!routeName || !filesFrom || !run || args.length !== 6) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+const config = await getResolvedConfig();
+const route = getMoveRoutes(config).find((route) => route.name === routeName);
+if (!route) {
+  console.error(`Unknown route: ${routeName}`);
+  process.exit(1);
+}
+
+const files = (await readFile(filesFrom, "utf8")).split("\n").filter(Boolean);
+console.log(`Verifying ${files.length} files against ${route.destination}`);
+
+try {
+  const result = await verifyFiles({
+    source: route.source,
+    destination: route.destination,
+    files,
+    // Mirror the layout of LOCAL_PATH so files are easy to put back
+    quarantineDir: join(
+      config.localPath,
+      QUARANTINE_DIR,
+      run,
+      route.prefix ?? ""
+    ),
+    // The same limits as the route's copy in move-job.sh
+    transfer: {
+      args: [
+        "--transfers",
+        String(config.move.transfers),
+        "--checkers",
+        String(config.move.checkers),
+        "--bwlimit",
+        formatRclone(bandwidthAt(config.move.bwlimit)),
+      ],
+      rcSocket: MOVE_RC_SOCKET,
+    },
+    log: (line) => console.log(line),
+  });
+
+  console.log(
+    `Route "${route.name}" verified: ${result.verified} ok, ` +
+      `${result.reuploaded.length} re-uploaded, ` +
+      `${result.quarantined.length} quarantined`
+  );
+  if (result.unchecked.length > 0) {
+    console.log(
+      `WARNING: ${result.unchecked.length} files could not be checked ` +
+        `and stay for the next run`
+    );
+  }
+  if (result.mismatched.length > 0) {
+    process.exit(1);
+  }
+} catch (error) {
+  console.error(`ERROR: Verification failed: ${(error as Error).message}`);
+  process.exit(1);
+}
@@ -0,0 +1,66 @@
+import { getResolvedConfig } from "../config/load.js";
+import { formatDuration } from "../duration.js";
+import { createLogger } from "../log.js";
+import { getRemoteMounts } from "../remotes.js";
+import { startWatchdog } from "../watchdog/watchdog.js";
+import { notifyWebhooks } from "../webhooks.js";
+
+/**
+ * Entry point for the `watchdog` supervisord program
+ */
+
+const config = await getResolvedConfig();
+const { interval, timeout } = config.watchdog;
+const log = createLogger("watchdog", { level: config.logging.level });
+
+if (interval === 0) {
+  log.info("Watchdog disabled (WATCHDOG_INTERVAL=0)");
+  process.exit(0);
+}
+
+const remotes = getRemoteMounts(config);
+log.info(
+  `Probing ${[
+    ...remotes.map((remote) => remote.mountPath),
+    config.mergerfs.mountPath,
+  ].join(", ")} ` +
+    `every ${formatDuration(interval)} (timeout ${formatDuration(timeout)})`
+);
+
+const watchdog = startWatchdog({
+  remotes,
+  mergedPath: config.mergerfs.mountPath,
+  interval,
+  timeout,
+  crashLoopRestarts: config.watchdog.crashLoopRestarts,
+  crashLoopWindow: config.watchdog.crashLoopWindow,
+  log,
+  onMountChange: ({ program, path, up, error }) => {
+    void notifyWebhooks(
+      config,
+      log,
+      up ? "mount.up" : "mount.down",
+      up ? `${path} is up` : `${path} is down (${error})`,
+      { program, path, error }
+    );
+  },
+  onCrashLoop: ({ program, restarts, window }) => {
+    void notifyWebhooks(
+      config,
+      log,
+      "mount.crashloop",
+      `${program} restarted ${restarts} times within ${formatDuration(
+        window
+      )}; check its logs`,
+      { program, restarts, window }
+    );
+  },
+});
+
+for (const signal of ["SIGTERM", "SIGINT"] as const) {
+  process.on(signal, () => {
+    log.info(`Received ${signal}, stopping watchdog`);
+    watchdog.stop();
+    process.exit(0);
+  });
+}
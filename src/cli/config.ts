@@ -0,0 +1,26 @@
+import { configToEnv, redactConfig } from "../config/load.js";
+import type { Config } from "../config/schema.js";
+
+/**
+ * `neomount config`: the resolved configuration every service uses, as
+ * environment variables, with secrets removed
+ */
+
+export const CONFIG_USAGE = "Usage: neomount config [--json]";
+
+export function configCommand(config: Config, args: string[]): number {
+  if (args.some((arg) => arg !== "--json")) {
+    console.error(CONFIG_USAGE);
+    return 1;
+  }
+
+  const redacted = redactConfig(config);
+  if (args.includes("--json")) {
+    console.log(JSON.stringify(redacted, null, 2));
+    return 0;
+  }
+  for (const [name, value] of Object.entries(configToEnv(redacted))) {
+    console.log(`${name}=${value}`);
+  }
+  return 0;
+}
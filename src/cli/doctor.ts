@@ -0,0 +1,40 @@
+import type { Config } from "../config/schema.js";
+import { diagnose } from "../doctor.js";
+
+/**
+ * `neomount doctor`: every check with an explanation of each problem.
+ * Exits 1 if anything is unhealthy.
+ */
+
+export const DOCTOR_USAGE = "Usage: neomount doctor [--json]";
+
+const MARKS = { ok: "ok", degraded: "WARN", unhealthy: "FAIL" };
+
+export async function doctorCommand(
+  config: Config,
+  args: string[]
+): Promise<number> {
+  if (args.some((arg) => arg !== "--json")) {
+    console.error(DOCTOR_USAGE);
+    return 1;
+  }
+
+  const diagnoses = await diagnose(config);
+  if (args.includes("--json")) {
+    console.log(JSON.stringify(diagnoses, null, 2));
+  } else {
+    for (const diagnosis of diagnoses) {
+      console.log(
+        `[${MARKS[diagnosis.status]}] ${diagnosis.subject}: ${
+          diagnosis.message
+        }`
+      );
+      diagnosis.hints.forEach((hint) => console.log(`       ${hint}`));
+    }
+    const problems = diagnoses.filter((d) => d.status !== "ok").length;
+    console.log(
+      problems === 0 ? "No problems found" : `${problems} problems found`
+    );
+  }
+  return diagnoses.some((d) => d.status === "unhealthy") ? 1 : 0;
+}
@@ -0,0 +1,101 @@
+import { spawn } from "node:child_process";
+import { access, readdir } from "node:fs/promises";
+import { join } from "node:path";
+import { MOVE_LOG, SUPERVISOR_LOG_DIR } from "../paths.js";
+
+/**
+ * `neomount logs`: the end of a service's own log files, stdout and stderr,
+ * optionally followed. `move` is the output of every move job.
+ */
+
+export const LOGS_USAGE =
+  "Usage: neomount logs SERVICE [-f|--follow] [-n|--lines N]";
+
+const DEFAULT_LINES = "50";
+
+/** Services with a log file, as `neomount logs` names them */
+async function listServices(): Promise<string[]> {
+  let entries: string[] = [];
+  try {
+    entries = await readdir(SUPERVISOR_LOG_DIR);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+  const services = entries.flatMap((entry) => {
+    const match = entry.match(/^(.+?)(_error)?\.log$/);
+    return match?.[1] ? [match[1]] : [];
+  });
+  return [...new Set([...services, "move"])].sort();
+}
+
+async function logFiles(service: string): Promise<string[]> {
+  const candidates =
+    service === "move"
+      ? [MOVE_LOG]
+      : [`${service}.log`, `${service}_error.log`].map((name) =>
+          join(SUPERVISOR_LOG_DIR, name)
+        );
+  const files: string[] = [];
+  for (const file of candidates) {
+    try {
+      await access(file);
+      files.push(file);
+    } catch {
+      continue;
+    }
+  }
+  return files;
+}
+
+export async function logsCommand(args: string[]): Promise<number> {
+  let service: string | undefined;
+  let follow = false;
+  let lines = DEFAULT_LINES;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] as string;
+    if (arg === "-f" || arg === "--follow") {
+      follow = true;
+    } else if (
+      (arg === "-n" || arg === "--lines") &&
+      /^\d+$/.test(args[i + 1] ?? "")
+    ) {
+      lines = args[++i] as string;
+    } else if (!arg.startsWith("-") && service === undefined) {
+      service = arg;
+    } else {
+      console.error(LOGS_USAGE);
+      return 1;
+    }
+  }
+  if (service === undefined) {
+    console.error(LOGS_USAGE);
+    return 1;
+  }
+
+  const files = await logFiles(service);
+  if (files.length === 0) {
+    console.error(
+      `ERROR: No logs for "${service}" (available: ${(
+        await listServices()
+      ).join(", ")})`
+    );
+    return 1;
+  }
+
+  // -F keeps following a file across supervisord's log rotation
+  const child = spawn(
+    "tail",
+    ["-n", lines, ...(follow ? ["-F"] : []), ...files],
+    {
+      stdio: "inherit",
+    }
+  );
+  return new Promise((resolve) => {
+    child.on("error", (error) => {
+      console.error(`ERROR: ${error.message}`);
+      resolve(1);
+    });
+    child.on("close", (code) => resolve(code ?? 0));
+  });
+}
@@ -0,0 +1,72 @@
+import type { Config } from "../config/schema.js";
+import { effectiveFilters } from "../filters.js";
+import { getDiskSpace, scanPending } from "../local-usage.js";
+import { getMountStatuses } from "../mounts.js";
+import { getLastRun } from "../move/runner.js";
+import { getRemoteMounts } from "../remotes.js";
+import { formatBytes } from "../size.js";
+import { getProgramStatuses } from "../supervisor.js";
+
+/**
+ * `neomount status`: programs, mounts, what is waiting to be uploaded and
+ * the last move
+ */
+
+export const STATUS_USAGE = "Usage: neomount status [--json]";
+
+export async function statusCommand(
+  config: Config,
+  args: string[]
+): Promise<number> {
+  if (args.some((arg) => arg !== "--json")) {
+    console.error(STATUS_USAGE);
+    return 1;
+  }
+
+  const [programs, mounts, pending, space, move] = await Promise.all([
+    getProgramStatuses(),
+    getMountStatuses([
+      ...getRemoteMounts(config).map((mount) => mount.mountPath),
+      config.mergerfs.mountPath,
+    ]),
+    scanPending(config.localPath, effectiveFilters(config.move.filters)),
+    getDiskSpace(config.localPath),
+    getLastRun(),
+  ]);
+
+  if (args.includes("--json")) {
+    console.log(
+      JSON.stringify({ programs, mounts, pending, space, move }, null, 2)
+    );
+    return 0;
+  }
+
+  const width = Math.max(...programs.map((program) => program.name.length));
+  console.log("Programs:");
+  for (const program of programs) {
+    console.log(
+      `  ${program.name.padEnd(width)}  ${program.state.padEnd(8)}  ` +
+        program.description
+    );
+  }
+
+  console.log("Mounts:");
+  for (const mount of mounts) {
+    console.log(
+      `  ${mount.path}  ` +
+        (mount.mounted ? `mounted (${mount.fstype})` : "NOT MOUNTED")
+    );
+  }
+
+  console.log(
+    `Pending upload: ${pending.files} files, ${formatBytes(pending.bytes)} ` +
+      `in ${config.localPath} (${formatBytes(space.freeBytes)} free)`
+  );
+  console.log(
+    move
+      ? `Last move: ${move.id} (${move.trigger}) ${move.status}` +
+          (move.finishedAt ? `, finished ${move.finishedAt}` : "")
+      : "Last move: none yet"
+  );
+  return 0;
+}
@@ -0,0 +1,80 @@
+import { execFile } from "node:child_process";
+import { access } from "node:fs/promises";
+import { RCLONE_CONFIG } from "../paths.js";
+import type { ConfigIssue } from "./load.js";
+import type { Config } from "./schema.js";
+
+/**
+ * Checks that depend on the container environment rather than on the
+ * configuration values alone
+ */
+
+function listRemotes(): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "rclone",
+      ["--config", RCLONE_CONFIG, "listremotes"],
+      { timeout: 30000 },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(stderr.trim() || error.message));
+          return;
+        }
+        resolve(
+          stdout
+            .split("\n")
+            .map((line) => line.trim().replace(/:$/, ""))
+            .filter(Boolean)
+        );
+      }
+    );
+  });
+}
+
+/**
+ * Verify rclone.conf is present and defines every configured remote
+ */
+export async function checkEnvironment(config: Config): Promise<ConfigIssue[]> {
+  try {
+    await access(RCLONE_CONFIG);
+  } catch {
+    return [
+      {
+        field: "rclone.conf",
+        message: `not found at ${RCLONE_CONFIG}; mount your rclone config file there`,
+      },
+    ];
+  }
+
+  let remotes: string[];
+  try {
+    remotes = await listRemotes();
+  } catch (error) {
+    return [
+      {
+        field: "rclone.conf",
+        message: `could not list remotes: ${(error as Error).message}`,
+      },
+    ];
+  }
+
+  const available = remotes.length ? remotes.join(", ") : "none";
+  const wanted: [string, string][] = [
+    ["RCLONE_REMOTE", config.rclone.remote],
+    ...config.rclone.extraRemotes.map((extra): [string, string] => [
+      "RCLONE_EXTRA_REMOTES",
+      extra.remote,
+    ]),
+    ...config.move.routes.map((route): [string, string] => [
+      "MOVE_ROUTES",
+      route.remote,
+    ]),
+  ];
+
+  return wanted
+    .filter(([, remote]) => !remotes.includes(remote))
+    .map(([field, remote]) => ({
+      field,
+      message: `remote "${remote}" not found in rclone.conf (available: ${available})`,
+    }));
+}
@@ -0,0 +1,109 @@
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { CONFIG_FILES } from "../paths.js";
+
+/**
+ * Reading of the optional neomount config file
+ */
+
+export interface ConfigFile {
+  path: string;
+  data: Record<string, unknown>;
+}
+
+export class ConfigFileError extends Error {
+  constructor(public readonly path: string, public readonly reason: string) {
+    super(`${path}: ${reason}`);
+    this.name = "ConfigFileError";
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+async function readIfExists(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw new ConfigFileError(path, (error as Error).message);
+  }
+}
+
+/**
+ * Read the first config file that exists. NEOMOUNT_CONFIG names an explicit
+ * file, which must then exist; otherwise the default locations are tried.
+ * Returns null when there is no config file.
+ */
+export async function readConfigFile(
+  env: NodeJS.ProcessEnv = process.env
+): Promise<ConfigFile | null> {
+  const explicit = env.NEOMOUNT_CONFIG;
+  const candidates = explicit ? [explicit] : CONFIG_FILES;
+
+  for (const path of candidates) {
+    const contents = await readIfExists(path);
+    if (contents === null) continue;
+
+    let data: unknown;
+    try {
+      data =
+        extname(path) === ".json" ? JSON.parse(contents) : parseYaml(contents);
+    } catch (error) {
+      throw new ConfigFileError(path, (error as Error).message);
+    }
+
+    // An empty YAML document parses to null
+    if (data === null || data === undefined) return { path, data: {} };
+    if (!isObject(data)) {
+      throw new ConfigFileError(path, "top level must be a mapping");
+    }
+    return { path, data };
+  }
+
+  if (explicit) {
+    throw new ConfigFileError(explicit, "file not found");
+  }
+  return null;
+}
+
+/**
+ * Look up a dotted key such as `rclone.mountPath`
+ */
+export function getKey(
+  data: Record<string, unknown>,
+  key: string
+): unknown | undefined {
+  let current: unknown = data;
+  for (const part of key.split(".")) {
+    if (!isObject(current)) return undefined;
+    current = current[part];
+  }
+  return current;
+}
+
+/**
+ * List every leaf key in the file that is not one of the known keys
+ */
+export function findUnknownKeys(
+  data: Record<string, unknown>,
+  known: string[],
+  prefix = ""
+): string[] {
+  const unknown: string[] = [];
+
+  for (const [name, value] of Object.entries(data)) {
+    const key = prefix + name;
+    if (known.includes(key)) continue;
+
+    if (isObject(value) && known.some((k) => k.startsWith(`${key}.`))) {
+      unknown.push(...findUnknownKeys(value, known, `${key}.`));
+    } else {
+      unknown.push(key);
+    }
+  }
+
+  return unknown;
+}
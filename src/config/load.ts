@@ -0,0 +1,399 @@
+import { readFile } from "node:fs/promises";
+import { relative } from "node:path";
+import { shellQuote } from "../args.js";
+import { FilterParseError, rebaseFilterRule } from "../filters.js";
+import { RESOLVED_CONFIG_FILE, START_ENVIRONMENT } from "../paths.js";
+import { redactWebhookUrl } from "../webhooks.js";
+import {
+  ConfigFileError,
+  findUnknownKeys,
+  getKey,
+  readConfigFile,
+} from "./file.js";
+import { SETTINGS, type Config } from "./schema.js";
+
+/**
+ * Build a validated Config from the config file and the environment,
+ * collecting every problem instead of stopping at the first one. Environment
+ * variables take precedence over the config file, which takes precedence
+ * over the built-in defaults.
+ */
+
+export interface ConfigIssue {
+  /** Environment variable or config file key the problem relates to */
+  field: string;
+  message: string;
+}
+
+export class ConfigValidationError extends Error {
+  constructor(public readonly issues: ConfigIssue[]) {
+    super(formatIssues(issues));
+    this.name = "ConfigValidationError";
+  }
+}
+
+export function formatIssues(issues: ConfigIssue[]): string {
+  const count = issues.length === 1 ? "1 problem" : `${issues.length} problems`;
+  const lines = issues.map((issue) => `  - ${issue.field}: ${issue.message}`);
+  return [`Invalid configuration (${count}):`, ...lines].join("\n");
+}
+
+function emptyConfig(): Config {
+  return {
+    localPath: "",
+    rclone: {
+      remote: "",
+      remotePath: "",
+      mountPath: "",
+      mountArgs: null,
+      extraRemotes: [],
+    },
+    mergerfs: { mountPath: "", mountArgs: null },
+    move: {
+      schedule: "",
+      jitter: 0,
+      minAge: 0,
+      order: "none",
+      highWater: null,
+      lowWater: null,
+      minFree: null,
+      pressureInterval: 0,
+      filters: [],
+      uploadRemote: "",
+      routes: [],
+      verify: false,
+      bwlimit: { windows: [], otherwise: null },
+      transfers: 0,
+      checkers: 0,
+      watch: false,
+      watchSettle: 0,
+      watchBatch: 0,
+      watchInterval: 0,
+    },
+    api: { host: "", port: 0, token: "" },
+    watchdog: {
+      interval: 0,
+      timeout: 0,
+      crashLoopRestarts: 0,
+      crashLoopWindow: 0,
+    },
+    health: { timeout: 0, minFree: 0 },
+    webhooks: { urls: [], events: [], retries: 0 },
+    logging: { level: "info" },
+    shutdown: { timeout: 0 },
+  };
+}
+
+function overlaps(a: string, b: string): boolean {
+  const path = relative(a, b);
+  return path === "" || !path.startsWith("..");
+}
+
+/**
+ * Check that none of the container paths is equal to or nested inside
+ * another, which would make mergerfs or the move job operate on itself
+ */
+function checkPathOverlaps(config: Config): ConfigIssue[] {
+  const paths: [string, string][] = [
+    ["LOCAL_PATH", config.localPath],
+    ["RCLONE_MOUNT_PATH", config.rclone.mountPath],
+    ...config.rclone.extraRemotes.map((extra): [string, string] => [
+      "RCLONE_EXTRA_REMOTES",
+      extra.mountPath,
+    ]),
+    ["MERGED_PATH", config.mergerfs.mountPath],
+  ];
+  const issues: ConfigIssue[] = [];
+
+  for (let i = 0; i < paths.length; i++) {
+    for (let j = i + 1; j < paths.length; j++) {
+      const [nameA, pathA] = paths[i] as [string, string];
+      const [nameB, pathB] = paths[j] as [string, string];
+      if (!pathA || !pathB) continue;
+      if (overlaps(pathA, pathB) || overlaps(pathB, pathA)) {
+        issues.push({
+          field: `${nameA}/${nameB}`,
+          message: `${pathA} and ${pathB} must not be the same or nested`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/** Addresses only reachable from inside the container */
+const LOOPBACK_HOSTS = ["127.0.0.1", "::1", "localhost"];
+
+/**
+ * The management API can start and cancel moves, so it may only listen
+ * beyond the container's loopback interface when it requires a token
+ */
+function checkApiExposure(config: Config): ConfigIssue[] {
+  const { host, token } = config.api;
+  if (token || !host || LOOPBACK_HOSTS.includes(host)) return [];
+  return [
+    {
+      field: "API_HOST/API_TOKEN",
+      message: `API_TOKEN is required to listen on ${host}`,
+    },
+  ];
+}
+
+/**
+ * The water marks only make sense as a pair, with low below high
+ */
+function checkWaterMarks(config: Config): ConfigIssue[] {
+  const { highWater, lowWater } = config.move;
+  const field = "MOVE_HIGH_WATER/MOVE_LOW_WATER";
+
+  if ((highWater === null) !== (lowWater === null)) {
+    return [{ field, message: "must be set together" }];
+  }
+  if (highWater !== null && lowWater !== null && lowWater >= highWater) {
+    return [{ field, message: "low water mark must be below high water mark" }];
+  }
+  return [];
+}
+
+/**
+ * The upload remote must be one of the mounted remotes, so that uploaded
+ * files stay visible in the merged view
+ */
+function checkUploadRemote(config: Config): ConfigIssue[] {
+  const { uploadRemote } = config.move;
+  const remotes = [
+    config.rclone.remote,
+    ...config.rclone.extraRemotes.map((extra) => extra.remote),
+  ];
+  if (!uploadRemote || remotes.includes(uploadRemote)) return [];
+  return [
+    {
+      field: "MOVE_UPLOAD_REMOTE",
+      message: `"${uploadRemote}" is not a mounted remote (expected one of ${remotes.join(
+        ", "
+      )})`,
+    },
+  ];
+}
+
+/**
+ * Anchored MOVE_FILTERS rules mean a path under LOCAL_PATH, so every route
+ * must be able to rewrite them for its own directory
+ */
+function checkRouteFilters(config: Config): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  for (const rule of config.move.filters) {
+    for (const route of config.move.routes) {
+      try {
+        rebaseFilterRule(rule, route.prefix);
+      } catch (error) {
+        if (!(error instanceof FilterParseError)) throw error;
+        issues.push({
+          field: "MOVE_FILTERS/MOVE_ROUTES",
+          message: error.message,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+export interface ValidationResult {
+  /** Configuration with every valid value filled in */
+  config: Config;
+  issues: ConfigIssue[];
+  /** Config file that was read, if any */
+  file: string | null;
+}
+
+/**
+ * Validate every setting and return the problems found alongside the
+ * partially populated configuration
+ */
+export async function validateConfig(
+  env: NodeJS.ProcessEnv = process.env
+): Promise<ValidationResult> {
+  const config = emptyConfig();
+  const issues: ConfigIssue[] = [];
+
+  let data: Record<string, unknown> = {};
+  let file: string | null = null;
+  try {
+    const configFile = await readConfigFile(env);
+    if (configFile) {
+      data = configFile.data;
+      file = configFile.path;
+    }
+  } catch (error) {
+    if (!(error instanceof ConfigFileError)) throw error;
+    issues.push({ field: error.path, message: error.reason });
+  }
+
+  if (file) {
+    const known = SETTINGS.map((spec) => spec.key);
+    for (const key of findUnknownKeys(data, known)) {
+      issues.push({ field: `${file}: ${key}`, message: "unknown setting" });
+    }
+  }
+
+  for (const spec of SETTINGS) {
+    const fromFile = getKey(data, spec.key);
+    let field: string;
+    let value: unknown;
+
+    if (env[spec.env] !== undefined) {
+      field = spec.env;
+      value = env[spec.env];
+    } else if (fromFile !== undefined && fromFile !== null) {
+      field = `${file}: ${spec.key}`;
+      value = fromFile;
+    } else {
+      field = spec.env;
+      value = spec.default;
+    }
+
+    if (
+      value === undefined ||
+      (typeof value === "string" && !value.trim() && !spec.allowEmpty)
+    ) {
+      issues.push({ field, message: "is required" });
+      continue;
+    }
+
+    try {
+      spec.apply(config, value);
+    } catch (error) {
+      issues.push({ field, message: (error as Error).message });
+    }
+  }
+
+  issues.push(...checkPathOverlaps(config));
+  issues.push(...checkApiExposure(config));
+  issues.push(...checkWaterMarks(config));
+  issues.push(...checkUploadRemote(config));
+  issues.push(...checkRouteFilters(config));
+
+  return { config, issues, file };
+}
+
+/**
+ * Load the configuration, throwing ConfigValidationError listing every
+ * invalid setting
+ */
+export async function loadConfig(
+  env: NodeJS.ProcessEnv = process.env
+): Promise<Config> {
+  const { config, issues } = await validateConfig(env);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return config;
+}
+
+/**
+ * Render the resolved configuration as the environment variables read by
+ * the shell scripts
+ */
+export function configToEnv(config: Config): Record<string, string> {
+  return Object.fromEntries(
+    SETTINGS.map((spec) => [spec.env, spec.toEnv(config)])
+  );
+}
+
+/**
+ * Render the resolved configuration as the shell exports of config.env
+ */
+export function configToShell(config: Config): string {
+  return Object.entries(configToEnv(config))
+    .map(([name, value]) => `export ${name}=${shellQuote(value)}`)
+    .join("\n");
+}
+
+/**
+ * Copy of the configuration that is safe to print, with secrets such as the
+ * API token and the tokens in webhook URLs removed
+ */
+export function redactConfig(config: Config): Config {
+  return {
+    ...config,
+    api: {
+      ...config.api,
+      token: config.api.token && "<redacted>",
+    },
+    webhooks: {
+      ...config.webhooks,
+      urls: config.webhooks.urls.map((hook) => ({
+        ...hook,
+        url: redactWebhookUrl(hook.url),
+      })),
+    },
+  };
+}
+
+/**
+ * Settings this process was given that differ both from the container's
+ * start environment and from the resolved configuration, e.g.
+ * `docker exec -e RCLONE_REMOTE=backup`. Settings missing from the process
+ * environment are not overrides.
+ */
+async function readOverrides(config: Config): Promise<NodeJS.ProcessEnv> {
+  let environ: string;
+  try {
+    environ = await readFile(START_ENVIRONMENT, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    return {};
+  }
+  const start = new Map(
+    environ
+      .split("\0")
+      .filter((entry) => entry.includes("="))
+      .map((entry) => {
+        const index = entry.indexOf("=");
+        return [entry.slice(0, index), entry.slice(index + 1)];
+      })
+  );
+
+  const resolved = configToEnv(config);
+  const overrides: NodeJS.ProcessEnv = {};
+  for (const spec of SETTINGS) {
+    const value = process.env[spec.env];
+    if (
+      value !== undefined &&
+      value !== start.get(spec.env) &&
+      value !== resolved[spec.env]
+    ) {
+      overrides[spec.env] = value;
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Get the configuration resolved by the entrypoint at container start. Falls
+ * back to loading it afresh when running outside the container. Services
+ * should use this rather than loadConfig so they all see the same values,
+ * including move jobs started by the scheduler and commands run through
+ * `docker exec`, which do not inherit the container's start environment.
+ * Settings the process was given on top of that environment are validated
+ * and applied over the resolved configuration, throwing
+ * ConfigValidationError if they are invalid.
+ */
+export async function getResolvedConfig(): Promise<Config> {
+  let config: Config;
+  try {
+    config = JSON.parse(await readFile(RESOLVED_CONFIG_FILE, "utf8")) as Config;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    return loadConfig();
+  }
+
+  const overrides = await readOverrides(config);
+  if (Object.keys(overrides).length === 0) return config;
+  return loadConfig({
+    NEOMOUNT_CONFIG: process.env.NEOMOUNT_CONFIG,
+    ...configToEnv(config),
+    ...overrides,
+  });
+}
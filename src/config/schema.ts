@@ -0,0 +1,920 @@
+import { isAbsolute } from "node:path";
+import {
+  parseMergerfsArgs,
+  parseRcloneArgs,
+  shellQuote,
+  splitArgs,
+} from "../args.js";
+import { nextFireTime, parseCron } from "../cron.js";
+import { parseDuration } from "../duration.js";
+import {
+  formatFilterRule,
+  parseFilterRule,
+  type FilterRule,
+} from "../filters.js";
+import {
+  formatBandwidthSchedule,
+  parseBandwidthSchedule,
+  type BandwidthSchedule,
+} from "../move/bandwidth.js";
+import { isLogLevel, LOG_LEVELS, type LogLevel } from "../log.js";
+import { remoteSlug } from "../remotes.js";
+import { parseSize } from "../size.js";
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_FORMATS,
+  type WebhookEventName,
+  type WebhookFormat,
+} from "../webhooks.js";
+
+/**
+ * Schema for the neomount settings. Each setting can come from an
+ * environment variable or from a key in the optional config file.
+ */
+
+export interface Config {
+  localPath: string;
+  rclone: {
+    remote: string;
+    remotePath: string;
+    mountPath: string;
+    /** Overrides merged into the default mount arguments */
+    mountArgs: string[] | null;
+    /** Mounted alongside the remote above and merged in after it */
+    extraRemotes: ExtraRemote[];
+  };
+  mergerfs: {
+    mountPath: string;
+    mountArgs: string[] | null;
+  };
+  move: {
+    schedule: string;
+    /** Maximum random delay added to each scheduled run, in milliseconds */
+    jitter: number;
+    /** Files modified more recently than this (ms) are left for a later run */
+    minAge: number;
+    order: MoveOrder;
+    /** LOCAL_PATH filesystem usage (0-1) that triggers an early move */
+    highWater: number | null;
+    /** Usage (0-1) an early move tries to bring LOCAL_PATH back down to */
+    lowWater: number | null;
+    /** Free bytes on LOCAL_PATH below which every eligible file is moved */
+    minFree: number | null;
+    /** Time between disk usage checks for pressure and emergency moves, in ms */
+    pressureInterval: number;
+    /** Rules checked before the built-in DEFAULT_MOVE_FILTERS */
+    filters: FilterRule[];
+    /** Remote that receives uploads; empty means rclone.remote */
+    uploadRemote: string;
+    /** Subdirectories of localPath uploaded somewhere other than uploadRemote */
+    routes: RouteConfig[];
+    /** Copy, compare with the remote, then delete, instead of rclone move */
+    verify: boolean;
+    /** Upload bandwidth limits by time of day */
+    bwlimit: BandwidthSchedule;
+    /** Files transferred in parallel */
+    transfers: number;
+    /** Files checked in parallel */
+    checkers: number;
+    /** Upload files soon after they change, as well as on the schedule */
+    watch: boolean;
+    /** How long a file must go unchanged before a watch move picks it up */
+    watchSettle: number;
+    /** Most files one watch move uploads */
+    watchBatch: number;
+    /** Least time between the starts of two watch moves, in ms */
+    watchInterval: number;
+  };
+  api: {
+    host: string;
+    port: number;
+    /** Bearer token every request must carry; empty allows any request */
+    token: string;
+  };
+  watchdog: {
+    /** Time between mount probes in milliseconds; 0 disables the watchdog */
+    interval: number;
+    /** How long a single stat or readdir may take, in milliseconds */
+    timeout: number;
+    /** Restarts of one mount program within crashLoopWindow that count as a crash loop */
+    crashLoopRestarts: number;
+    /** Window for counting restarts, in milliseconds */
+    crashLoopWindow: number;
+  };
+  health: {
+    /** How long each mount may take to answer the health check, in ms */
+    timeout: number;
+    /** Free bytes on LOCAL_PATH below which the container is degraded */
+    minFree: number;
+  };
+  webhooks: {
+    urls: WebhookConfig[];
+    /** Events to send; empty means all */
+    events: WebhookEventName[];
+    /** Extra attempts after a failed delivery */
+    retries: number;
+  };
+  logging: {
+    /** Records below this level are left out of the container's output */
+    level: LogLevel;
+  };
+  shutdown: {
+    /**
+     * How long the whole ordered shutdown may take, in ms; must fit in the
+     * time `docker stop` waits before killing the container
+     */
+    timeout: number;
+  };
+}
+
+export interface ExtraRemote {
+  remote: string;
+  remotePath: string;
+  mountPath: string;
+}
+
+export interface RouteConfig {
+  /** Subdirectory of localPath, without leading or trailing slashes */
+  prefix: string;
+  remote: string;
+  remotePath: string;
+}
+
+export interface WebhookConfig {
+  url: string;
+  format: WebhookFormat;
+}
+
+export type MoveOrder = "none" | "oldest-first";
+
+const MOVE_ORDERS: MoveOrder[] = ["none", "oldest-first"];
+
+export interface SettingSpec {
+  /** Environment variable name */
+  env: string;
+  /** Dotted key in the config file */
+  key: string;
+  description: string;
+  /** Value used when the setting is unset; required settings have none */
+  default?: string;
+  /** Whether an empty string is an acceptable value */
+  allowEmpty?: boolean;
+  /**
+   * Parse and store a value, throwing an Error if it is invalid. Values from
+   * the environment are always strings; values from the config file may be
+   * any JSON type.
+   */
+  apply(config: Config, value: unknown): void;
+  /** Render the resolved value back into environment variable form */
+  toEnv(config: Config): string;
+}
+
+function string(value: unknown): string {
+  if (typeof value === "number") return String(value);
+  if (typeof value !== "string") {
+    throw new Error(`expected a string, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+function boolean(value: unknown): boolean {
+  if (typeof value === "boolean") return value;
+  const raw = string(value).trim().toLowerCase();
+  if (["true", "yes", "on", "1"].includes(raw)) return true;
+  if (["false", "no", "off", "0"].includes(raw)) return false;
+  throw new Error(`"${raw}" must be true or false`);
+}
+
+function positiveInteger(value: unknown): number {
+  const raw = string(value).trim();
+  if (!/^\d+$/.test(raw) || Number(raw) < 1) {
+    throw new Error(`"${raw}" must be a whole number of at least 1`);
+  }
+  return Number(raw);
+}
+
+function remoteName(value: unknown): string {
+  const remote = string(value);
+  if (!/^[\w.@ +-]+$/.test(remote) || remote.startsWith("-")) {
+    throw new Error(`"${remote}" is not a valid rclone remote name`);
+  }
+  return remote;
+}
+
+function absolutePath(value: unknown): string {
+  const path = string(value);
+  if (!isAbsolute(path)) {
+    throw new Error(`"${path}" must be an absolute path`);
+  }
+  return path.length > 1 ? path.replace(/\/+$/, "") : path;
+}
+
+/**
+ * Mount arguments are a single string in the environment, and either a
+ * string or a list of words in the config file
+ */
+function optionalArgs(value: unknown, parse: (args: string[]) => unknown) {
+  let args: string[];
+  if (Array.isArray(value)) {
+    args = value.map(string);
+  } else {
+    const raw = string(value);
+    if (!raw.trim()) return null;
+    args = splitArgs(raw);
+  }
+  parse(args);
+  return args.length > 0 ? args : null;
+}
+
+/**
+ * Parse a usage ratio written as a percentage, e.g. `90%`
+ */
+function optionalPercent(value: unknown): number | null {
+  const raw = string(value).trim();
+  if (!raw) return null;
+
+  const match = raw.match(/^(\d+(?:\.\d+)?)%$/);
+  const percent = Number(match?.[1]);
+  if (!match || percent <= 0 || percent >= 100) {
+    throw new Error(`"${raw}" must be a percentage between 0% and 100%`);
+  }
+  return percent / 100;
+}
+
+function formatPercent(ratio: number | null): string {
+  return ratio === null ? "" : `${Math.round(ratio * 10000) / 100}%`;
+}
+
+/**
+ * Filter rules are separated by semicolons in the environment, and are a
+ * list (or a single string) in the config file
+ */
+function filterRules(value: unknown): FilterRule[] {
+  const rules = Array.isArray(value)
+    ? value.map(string)
+    : string(value).split(";");
+  return rules.filter((rule) => rule.trim()).map(parseFilterRule);
+}
+
+/**
+ * Extra remotes are `remote:path[=mountPath]` words in the environment. In
+ * the config file they may also be objects with `remote`, `path` and
+ * `mountPath` keys. The mount path defaults to RCLONE_MOUNT_PATH suffixed
+ * with the remote name, e.g. /mnt/rclone-gdrive.
+ */
+function extraRemote(config: Config, entry: unknown): ExtraRemote {
+  let fields: Record<string, unknown>;
+  if (entry !== null && typeof entry === "object") {
+    fields = entry as Record<string, unknown>;
+    const unknown = Object.keys(fields).filter(
+      (key) => !["remote", "path", "mountPath"].includes(key)
+    );
+    if (unknown.length > 0) {
+      throw new Error(`unknown remote keys: ${unknown.join(", ")}`);
+    }
+  } else {
+    const word = string(entry);
+    const match = word.match(/^([^:]+):([^=]*)(?:=(.*))?$/);
+    if (!match) {
+      throw new Error(`"${word}" must be remote:path or remote:path=mount`);
+    }
+    fields = { remote: match[1], path: match[2], mountPath: match[3] };
+  }
+
+  const remote = remoteName(fields.remote);
+  return {
+    remote,
+    remotePath: string(fields.path ?? ""),
+    mountPath: absolutePath(
+      fields.mountPath ?? `${config.rclone.mountPath}-${remoteSlug(remote)}`
+    ),
+  };
+}
+
+function extraRemotes(config: Config, value: unknown): ExtraRemote[] {
+  const entries = Array.isArray(value) ? value : splitArgs(string(value));
+  return entries.map((entry: unknown) => extraRemote(config, entry));
+}
+
+/**
+ * Normalise a route prefix to a relative path such as `movies/4k`
+ */
+function routePrefix(value: unknown): string {
+  const raw = string(value);
+  const parts = raw.split("/").filter(Boolean);
+  if (
+    parts.length === 0 ||
+    parts.some((part) => part === "." || part === "..")
+  ) {
+    throw new Error(`"${raw}" must be a subdirectory of LOCAL_PATH`);
+  }
+  return parts.join("/");
+}
+
+/**
+ * Routes are `prefix=remote:path` words in the environment, and either such
+ * strings or objects with `prefix`, `remote` and `path` keys in the config
+ * file
+ */
+function routes(value: unknown): RouteConfig[] {
+  const entries = Array.isArray(value) ? value : splitArgs(string(value));
+  const result: RouteConfig[] = [];
+
+  for (const entry of entries as unknown[]) {
+    let fields: Record<string, unknown>;
+    if (entry !== null && typeof entry === "object") {
+      fields = entry as Record<string, unknown>;
+      const unknown = Object.keys(fields).filter(
+        (key) => !["prefix", "remote", "path"].includes(key)
+      );
+      if (unknown.length > 0) {
+        throw new Error(`unknown route keys: ${unknown.join(", ")}`);
+      }
+    } else {
+      const word = string(entry);
+      const match = word.match(/^([^=]+)=([^:]+):(.*)$/);
+      if (!match) {
+        throw new Error(`"${word}" must be prefix=remote:path`);
+      }
+      fields = { prefix: match[1], remote: match[2], path: match[3] };
+    }
+
+    const route = {
+      prefix: routePrefix(fields.prefix),
+      remote: remoteName(fields.remote),
+      remotePath: string(fields.path ?? ""),
+    };
+    if (result.some((other) => other.prefix === route.prefix)) {
+      throw new Error(`more than one route for "${route.prefix}"`);
+    }
+    result.push(route);
+  }
+
+  return result;
+}
+
+function webhookUrl(value: unknown): string {
+  const raw = string(value).trim();
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new Error(`"${raw}" is not a valid URL`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`"${raw}" must be an http or https URL`);
+  }
+  return raw;
+}
+
+/**
+ * Webhooks are URLs in the environment, optionally prefixed with a format
+ * as in `slack:https://hooks.slack.com/...`. In the config file they may
+ * also be objects with `url` and `format` keys.
+ */
+function webhooks(value: unknown): WebhookConfig[] {
+  const entries = Array.isArray(value) ? value : splitArgs(string(value));
+
+  return (entries as unknown[]).map((entry) => {
+    let fields: Record<string, unknown>;
+    if (entry !== null && typeof entry === "object") {
+      fields = entry as Record<string, unknown>;
+      const unknown = Object.keys(fields).filter(
+        (key) => !["url", "format"].includes(key)
+      );
+      if (unknown.length > 0) {
+        throw new Error(`unknown webhook keys: ${unknown.join(", ")}`);
+      }
+    } else {
+      const word = string(entry);
+      const match = word.match(/^(\w+):(?!\/\/)(.*)$/);
+      fields = match
+        ? { format: match[1], url: match[2] }
+        : { format: "json", url: word };
+    }
+
+    const format = string(fields.format ?? "json") as WebhookFormat;
+    if (!WEBHOOK_FORMATS.includes(format)) {
+      throw new Error(
+        `"${format}" is not a valid webhook format (expected ${WEBHOOK_FORMATS.join(
+          ", "
+        )})`
+      );
+    }
+    return { url: webhookUrl(fields.url), format };
+  });
+}
+
+function webhookEvents(value: unknown): WebhookEventName[] {
+  const names = Array.isArray(value)
+    ? value.map(string)
+    : string(value).split(/[\s,]+/);
+  return names.filter(Boolean).map((name) => {
+    if (!(WEBHOOK_EVENTS as readonly string[]).includes(name)) {
+      throw new Error(
+        `"${name}" is not a webhook event (expected ${WEBHOOK_EVENTS.join(
+          ", "
+        )})`
+      );
+    }
+    return name as WebhookEventName;
+  });
+}
+
+function joinArgs(args: string[] | null): string {
+  return args?.map(shellQuote).join(" ") ?? "";
+}
+
+export const SETTINGS: SettingSpec[] = [
+  {
+    env: "RCLONE_REMOTE",
+    key: "rclone.remote",
+    description: "Name of the rclone remote (must exist in rclone.conf)",
+    default: "remote",
+    apply(config, value) {
+      config.rclone.remote = remoteName(value);
+    },
+    toEnv: (config) => config.rclone.remote,
+  },
+  {
+    env: "RCLONE_REMOTE_PATH",
+    key: "rclone.remotePath",
+    description: "Path within the remote to mount",
+    default: "",
+    allowEmpty: true,
+    apply(config, value) {
+      config.rclone.remotePath = string(value);
+    },
+    toEnv: (config) => config.rclone.remotePath,
+  },
+  {
+    env: "LOCAL_PATH",
+    key: "localPath",
+    description: "Path for local storage inside the container",
+    default: "/mnt/local",
+    apply(config, value) {
+      config.localPath = absolutePath(value);
+    },
+    toEnv: (config) => config.localPath,
+  },
+  {
+    env: "RCLONE_MOUNT_PATH",
+    key: "rclone.mountPath",
+    description: "Path for the rclone mount inside the container",
+    default: "/mnt/rclone",
+    apply(config, value) {
+      config.rclone.mountPath = absolutePath(value);
+    },
+    toEnv: (config) => config.rclone.mountPath,
+  },
+  {
+    env: "RCLONE_EXTRA_REMOTES",
+    key: "rclone.extraRemotes",
+    description: "Further remotes to mount and merge, as remote:path words",
+    default: "",
+    allowEmpty: true,
+    apply(config, value) {
+      config.rclone.extraRemotes = extraRemotes(config, value);
+    },
+    toEnv: (config) =>
+      joinArgs(
+        config.rclone.extraRemotes.map(
+          (extra) => `${extra.remote}:${extra.remotePath}=${extra.mountPath}`
+        )
+      ),
+  },
+  {
+    env: "MERGED_PATH",
+    key: "mergerfs.mountPath",
+    description: "Path for the merged filesystem inside the container",
+    default: "/mnt/merged",
+    apply(config, value) {
+      config.mergerfs.mountPath = absolutePath(value);
+    },
+    toEnv: (config) => config.mergerfs.mountPath,
+  },
+  {
+    env: "MOVE_SCHEDULE",
+    key: "move.schedule",
+    description: "Cron schedule for the move job",
+    default: "0 2 * * *",
+    apply(config, value) {
+      const schedule = string(value).trim();
+      if (!nextFireTime(parseCron(schedule), new Date())) {
+        throw new Error(`"${schedule}" never fires`);
+      }
+      config.move.schedule = schedule;
+    },
+    toEnv: (config) => config.move.schedule,
+  },
+  {
+    env: "MOVE_JITTER",
+    key: "move.jitter",
+    description: "Maximum random delay added to each scheduled move",
+    default: "0",
+    apply(config, value) {
+      config.move.jitter = parseDuration(string(value));
+    },
+    toEnv: (config) => `${config.move.jitter}ms`,
+  },
+  {
+    env: "MOVE_MIN_AGE",
+    key: "move.minAge",
+    description: "Minimum time since a file was last modified before it moves",
+    default: "0",
+    apply(config, value) {
+      config.move.minAge = parseDuration(string(value));
+    },
+    // Whole seconds, since the script passes this to rclone --min-age
+    toEnv: (config) => `${Math.ceil(config.move.minAge / 1000)}s`,
+  },
+  {
+    env: "MOVE_ORDER",
+    key: "move.order",
+    description: "Order files are moved in: none or oldest-first",
+    default: "none",
+    apply(config, value) {
+      const order = string(value).trim() as MoveOrder;
+      if (!MOVE_ORDERS.includes(order)) {
+        throw new Error(
+          `"${order}" is not a valid order (expected ${MOVE_ORDERS.join(", ")})`
+        );
+      }
+      config.move.order = order;
+    },
+    toEnv: (config) => config.move.order,
+  },
+  {
+    env: "MOVE_HIGH_WATER",
+    key: "move.highWater",
+    description: "LOCAL_PATH disk usage that triggers an early move",
+    default: "",
+    allowEmpty: true,
+    apply(config, value) {
+      config.move.highWater = optionalPercent(value);
+    },
+    toEnv: (config) => formatPercent(config.move.highWater),
+  },
+  {
+    env: "MOVE_LOW_WATER",
+    key: "move.lowWater",
+    description: "LOCAL_PATH disk usage an early move brings usage down to",
+    default: "",
+    allowEmpty: true,
+    apply(config, value) {
+      config.move.lowWater = optionalPercent(value);
+    },
+    toEnv: (config) => formatPercent(config.move.lowWater),
+  },
+  {
+    env: "MOVE_MIN_FREE",
+    key: "move.minFree",
+    description: "LOCAL_PATH free space below which an emergency move starts",
+    default: "",
+    allowEmpty: true,
+    apply(config, value) {
+      const raw = string(value).trim();
+      config.move.minFree = raw ? parseSize(raw) : null;
+    },
+    toEnv: (config) =>
+      config.move.minFree === null ? "" : String(config.move.minFree),
+  },
+  {
+    env: "MOVE_PRESSURE_INTERVAL",
+    key: "move.pressureInterval",
+    description: "Time between LOCAL_PATH disk usage checks",
+    default: "1m",
+    apply(config, value) {
+      const interval = parseDuration(string(value));
+      if (interval <= 0) {
+        throw new Error("must be greater than zero");
+      }
+      config.move.pressureInterval = interval;
+    },
+    toEnv: (config) => `${config.move.pressureInterval}ms`,
+  },
+  {
+    env: "MOVE_FILTERS",
+    key: "move.filters",
+    description: "Extra include/exclude rules for the move job",
+    default: "",
+    allowEmpty: true,
+    apply(config, value) {
+      config.move.filters = filterRules(value);
+    },
+    toEnv: (config) => config.move.filters.map(formatFilterRule).join("; "),
+  },
+  {
+    env: "MOVE_UPLOAD_REMOTE",
+    key: "move.uploadRemote",
+    description: "Remote the move job uploads to (default: RCLONE_REMOTE)",
+    default: "",
+    allowEmpty: true,
+    apply(config, value) {
+      const remote = string(value).trim();
+      config.move.uploadRemote = remote && remoteName(remote);
+    },
+    toEnv: (config) => config.move.uploadRemote,
+  },
+  {
+    env: "MOVE_ROUTES",
+    key: "move.routes",
+    description: "Local subdirectories uploaded to other remotes or paths",
+    default: "",
+    allowEmpty: true,
+    apply(config, value) {
+      config.move.routes = routes(value);
+    },
+    toEnv: (config) =>
+      joinArgs(
+        config.move.routes.map(
+          (route) => `${route.prefix}=${route.remote}:${route.remotePath}`
+        )
+      ),
+  },
+  {
+    env: "MOVE_VERIFY",
+    key: "move.verify",
+    description: "Verify size and hash of every moved file before deleting it",
+    default: "false",
+    apply(config, value) {
+      config.move.verify = boolean(value);
+    },
+    toEnv: (config) => String(config.move.verify),
+  },
+  {
+    env: "MOVE_BWLIMIT",
+    key: "move.bwlimit",
+    description: "Upload bandwidth limits by time of day",
+    default: "",
+    allowEmpty: true,
+    apply(config, value) {
+      config.move.bwlimit = parseBandwidthSchedule(
+        Array.isArray(value) ? value.map(string) : string(value)
+      );
+    },
+    toEnv: (config) => formatBandwidthSchedule(config.move.bwlimit),
+  },
+  {
+    env: "MOVE_TRANSFERS",
+    key: "move.transfers",
+    description: "Number of files the move job transfers in parallel",
+    default: "16",
+    apply(config, value) {
+      config.move.transfers = positiveInteger(value);
+    },
+    toEnv: (config) => String(config.move.transfers),
+  },
+  {
+    env: "MOVE_CHECKERS",
+    key: "move.checkers",
+    description: "Number of files the move job checks in parallel",
+    default: "16",
+    apply(config, value) {
+      config.move.checkers = positiveInteger(value);
+    },
+    toEnv: (config) => String(config.move.checkers),
+  },
+  {
+    env: "MOVE_WATCH",
+    key: "move.watch",
+    description: "Also upload files as soon as they stop changing",
+    default: "false",
+    apply(config, value) {
+      config.move.watch = boolean(value);
+    },
+    toEnv: (config) => String(config.move.watch),
+  },
+  {
+    env: "MOVE_WATCH_SETTLE",
+    key: "move.watchSettle",
+    description: "Time a file must go unchanged before watch mode uploads it",
+    default: "30s",
+    apply(config, value) {
+      config.move.watchSettle = parseDuration(string(value));
+    },
+    toEnv: (config) => `${config.move.watchSettle}ms`,
+  },
+  {
+    env: "MOVE_WATCH_BATCH",
+    key: "move.watchBatch",
+    description: "Most files uploaded by one watch mode move",
+    default: "100",
+    apply(config, value) {
+      config.move.watchBatch = positiveInteger(value);
+    },
+    toEnv: (config) => String(config.move.watchBatch),
+  },
+  {
+    env: "MOVE_WATCH_INTERVAL",
+    key: "move.watchInterval",
+    description: "Least time between the starts of two watch mode moves",
+    default: "1m",
+    apply(config, value) {
+      config.move.watchInterval = parseDuration(string(value));
+    },
+    toEnv: (config) => `${config.move.watchInterval}ms`,
+  },
+  {
+    env: "RCLONE_MOUNT_ARGS",
+    key: "rclone.mountArgs",
+    description: "Custom rclone mount arguments",
+    default: "",
+    allowEmpty: true,
+    apply(config, value) {
+      config.rclone.mountArgs = optionalArgs(value, parseRcloneArgs);
+    },
+    toEnv: (config) => joinArgs(config.rclone.mountArgs),
+  },
+  {
+    env: "MERGERFS_MOUNT_ARGS",
+    key: "mergerfs.mountArgs",
+    description: "Custom mergerfs mount arguments",
+    default: "",
+    allowEmpty: true,
+    apply(config, value) {
+      config.mergerfs.mountArgs = optionalArgs(value, parseMergerfsArgs);
+    },
+    toEnv: (config) => joinArgs(config.mergerfs.mountArgs),
+  },
+  {
+    env: "API_HOST",
+    key: "api.host",
+    description: "Address the management API listens on",
+    default: "127.0.0.1",
+    apply(config, value) {
+      config.api.host = string(value);
+    },
+    toEnv: (config) => config.api.host,
+  },
+  {
+    env: "API_PORT",
+    key: "api.port",
+    description: "Port the management API listens on",
+    default: "8081",
+    apply(config, value) {
+      const raw = string(value);
+      const port = Number(raw);
+      if (!/^\d+$/.test(raw) || port < 1 || port > 65535) {
+        throw new Error(`"${raw}" is not a valid port number`);
+      }
+      config.api.port = port;
+    },
+    toEnv: (config) => String(config.api.port),
+  },
+  {
+    env: "API_TOKEN",
+    key: "api.token",
+    description: "Bearer token required by the management API",
+    default: "",
+    allowEmpty: true,
+    apply(config, value) {
+      config.api.token = string(value).trim();
+    },
+    toEnv: (config) => config.api.token,
+  },
+  {
+    env: "WATCHDOG_INTERVAL",
+    key: "watchdog.interval",
+    description: "Time between mount health probes (0 disables the watchdog)",
+    default: "30s",
+    apply(config, value) {
+      config.watchdog.interval = parseDuration(string(value));
+    },
+    toEnv: (config) => `${config.watchdog.interval}ms`,
+  },
+  {
+    env: "WATCHDOG_TIMEOUT",
+    key: "watchdog.timeout",
+    description: "Time a mount probe may take before the mount counts as dead",
+    default: "10s",
+    apply(config, value) {
+      const timeout = parseDuration(string(value));
+      if (timeout <= 0) {
+        throw new Error("must be greater than zero");
+      }
+      config.watchdog.timeout = timeout;
+    },
+    toEnv: (config) => `${config.watchdog.timeout}ms`,
+  },
+  {
+    env: "WATCHDOG_CRASH_LOOP_RESTARTS",
+    key: "watchdog.crashLoopRestarts",
+    description:
+      "Restarts of one mount program within WATCHDOG_CRASH_LOOP_WINDOW that count as a crash loop",
+    default: "5",
+    apply(config, value) {
+      config.watchdog.crashLoopRestarts = positiveInteger(value);
+    },
+    toEnv: (config) => String(config.watchdog.crashLoopRestarts),
+  },
+  {
+    env: "WATCHDOG_CRASH_LOOP_WINDOW",
+    key: "watchdog.crashLoopWindow",
+    description: "Window in which mount program restarts are counted",
+    default: "1h",
+    apply(config, value) {
+      const window = parseDuration(string(value));
+      if (window <= 0) {
+        throw new Error("must be greater than zero");
+      }
+      config.watchdog.crashLoopWindow = window;
+    },
+    toEnv: (config) => `${config.watchdog.crashLoopWindow}ms`,
+  },
+  {
+    env: "HEALTH_TIMEOUT",
+    key: "health.timeout",
+    description: "Time each mount may take to answer the health check",
+    default: "4s",
+    apply(config, value) {
+      const timeout = parseDuration(string(value));
+      if (timeout <= 0) {
+        throw new Error("must be greater than zero");
+      }
+      config.health.timeout = timeout;
+    },
+    toEnv: (config) => `${config.health.timeout}ms`,
+  },
+  {
+    env: "HEALTH_MIN_FREE",
+    key: "health.minFree",
+    description: "Free space on LOCAL_PATH below which health is degraded",
+    default: "10G",
+    apply(config, value) {
+      config.health.minFree = parseSize(string(value));
+    },
+    toEnv: (config) => String(config.health.minFree),
+  },
+  {
+    env: "WEBHOOK_URLS",
+    key: "webhooks.urls",
+    description: "Webhook URLs notified of move and mount events",
+    default: "",
+    allowEmpty: true,
+    apply(config, value) {
+      config.webhooks.urls = webhooks(value);
+    },
+    toEnv: (config) =>
+      joinArgs(
+        config.webhooks.urls.map((hook) =>
+          hook.format === "json" ? hook.url : `${hook.format}:${hook.url}`
+        )
+      ),
+  },
+  {
+    env: "WEBHOOK_EVENTS",
+    key: "webhooks.events",
+    description: "Events sent to the webhooks (default: all)",
+    default: "",
+    allowEmpty: true,
+    apply(config, value) {
+      config.webhooks.events = webhookEvents(value);
+    },
+    toEnv: (config) => config.webhooks.events.join(","),
+  },
+  {
+    env: "WEBHOOK_RETRIES",
+    key: "webhooks.retries",
+    description: "Extra attempts for a webhook delivery that failed",
+    default: "3",
+    apply(config, value) {
+      const raw = string(value).trim();
+      if (!/^\d+$/.test(raw)) {
+        throw new Error(`"${raw}" must be a whole number`);
+      }
+      config.webhooks.retries = Number(raw);
+    },
+    toEnv: (config) => String(config.webhooks.retries),
+  },
+  {
+    env: "LOG_LEVEL",
+    key: "logging.level",
+    description: "Lowest level written to the container's output",
+    default: "info",
+    apply(config, value) {
+      const level = string(value).trim().toLowerCase();
+      if (!isLogLevel(level)) {
+        throw new Error(
+          `"${level}" is not a valid level (expected ${LOG_LEVELS.join(", ")})`
+        );
+      }
+      config.logging.level = level;
+    },
+    toEnv: (config) => config.logging.level,
+  },
+  {
+    env: "SHUTDOWN_TIMEOUT",
+    key: "shutdown.timeout",
+    description: "Time the ordered shutdown may take when the container stops",
+    default: "8s",
+    apply(config, value) {
+      const timeout = parseDuration(string(value));
+      if (timeout <= 0) {
+        throw new Error("must be greater than zero");
+      }
+      config.shutdown.timeout = timeout;
+    },
+    toEnv: (config) => `${config.shutdown.timeout}ms`,
+  },
+];
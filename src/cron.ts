@@ -0,0 +1,230 @@
+/**
+ * Parser for the five-field cron expressions accepted by MOVE_SCHEDULE
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** cron matches either day field when both are restricted */
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+export class CronParseError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`Invalid cron expression "${expression}": ${reason}`);
+    this.name = "CronParseError";
+  }
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  {
+    name: "month",
+    min: 1,
+    max: 12,
+    names: [
+      "jan",
+      "feb",
+      "mar",
+      "apr",
+      "may",
+      "jun",
+      "jul",
+      "aug",
+      "sep",
+      "oct",
+      "nov",
+      "dec",
+    ],
+  },
+  {
+    name: "day of week",
+    min: 0,
+    max: 7,
+    names: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"],
+  },
+];
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+function parseValue(value: string, spec: FieldSpec): number {
+  const index = spec.names?.indexOf(value.toLowerCase()) ?? -1;
+  if (index !== -1) return index + spec.min;
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`"${value}" is not a valid ${spec.name}`);
+  }
+  const number = Number(value);
+  if (number < spec.min || number > spec.max) {
+    throw new Error(
+      `${spec.name} ${number} is out of range ${spec.min}-${spec.max}`
+    );
+  }
+  return number;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range = "", stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`invalid step "${stepText}" in ${spec.name}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [from = "", to = ""] = range.split("-");
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`range ${range} in ${spec.name} is reversed`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression, throwing CronParseError describing the first
+ * problem found
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = expanded.split(/\s+/);
+
+  if (trimmed.startsWith("@") && !(trimmed.toLowerCase() in MACROS)) {
+    throw new CronParseError(expression, `unsupported macro ${trimmed}`);
+  }
+  if (fields.length !== FIELDS.length) {
+    throw new CronParseError(
+      expression,
+      `expected ${FIELDS.length} fields, got ${fields.length}`
+    );
+  }
+
+  try {
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELDS.map(
+      (spec, i) => parseField(fields[i] ?? "", spec)
+    ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+    // Both 0 and 7 mean Sunday
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+    return {
+      expression,
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      daysOfMonthRestricted: !fields[2]?.startsWith("*"),
+      daysOfWeekRestricted: !fields[4]?.startsWith("*"),
+    };
+  } catch (error) {
+    throw new CronParseError(expression, (error as Error).message);
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getDate());
+  const dow = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return dom || dow;
+  }
+  if (schedule.daysOfMonthRestricted) return dom;
+  if (schedule.daysOfWeekRestricted) return dow;
+  return true;
+}
+
+/** Give up on expressions like `0 0 30 2 *` that never match */
+const SEARCH_LIMIT_YEARS = 5;
+
+/**
+ * Find the first time strictly after `after` that matches the schedule, in
+ * the container's local time zone. Returns null if the schedule never fires.
+ */
+export function nextFireTime(schedule: CronSchedule, after: Date): Date | null {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + SEARCH_LIMIT_YEARS);
+
+  while (date <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * List the next `count` fire times after `after`
+ */
+export function nextFireTimes(
+  schedule: CronSchedule,
+  after: Date,
+  count: number
+): Date[] {
+  const times: Date[] = [];
+  let current: Date | null = after;
+
+  while (times.length < count) {
+    current = nextFireTime(schedule, current);
+    if (!current) break;
+    times.push(current);
+  }
+
+  return times;
+}
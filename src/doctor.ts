@@ -0,0 +1,225 @@
+import { access, open } from "node:fs/promises";
+import { join } from "node:path";
+import { checkEnvironment } from "./config/environment.js";
+import type { Config } from "./config/schema.js";
+import { nextFireTime, parseCron } from "./cron.js";
+import { checkHealth, type CheckStatus, type HealthCheck } from "./health.js";
+import { parseLogLine } from "./logging/parse.js";
+import { RCLONE_CONFIG, SUPERVISOR_LOG_DIR } from "./paths.js";
+import { getRemoteMounts, type RemoteMount } from "./remotes.js";
+import { getProgramStatus, type ProgramStatus } from "./supervisor.js";
+
+/**
+ * Diagnose the failures described in the README's troubleshooting section.
+ * Builds on the health check, and explains each problem found with the
+ * places to look and the commands to try next.
+ */
+
+export interface Diagnosis {
+  status: CheckStatus;
+  /** What was checked, e.g. `rclone.conf` or `mount /mnt/rclone` */
+  subject: string;
+  message: string;
+  /** What to look at or try next; empty when the check passed */
+  hints: string[];
+}
+
+const FUSE_DEVICE = "/dev/fuse";
+
+/** How much of the end of an error log is searched for the last error */
+const LOG_TAIL_BYTES = 64 * 1024;
+
+/**
+ * The last error logged by a program on stderr, if any
+ */
+async function lastError(program: string): Promise<string | null> {
+  let handle;
+  try {
+    handle = await open(join(SUPERVISOR_LOG_DIR, `${program}_error.log`));
+  } catch {
+    return null;
+  }
+  try {
+    const { size } = await handle.stat();
+    const length = Math.min(size, LOG_TAIL_BYTES);
+    const buffer = Buffer.alloc(length);
+    await handle.read(buffer, 0, length, size - length);
+    const errors = buffer
+      .toString("utf8")
+      .split("\n")
+      // The first line may start mid-way through
+      .slice(size > length ? 1 : 0)
+      .filter((line) => line.trim())
+      .map((line) => parseLogLine(line, { service: program, stream: "stderr" }))
+      .filter((record) => record.level === "error");
+    return errors.at(-1)?.msg ?? null;
+  } finally {
+    await handle.close();
+  }
+}
+
+async function fuseCheck(): Promise<Diagnosis> {
+  try {
+    await access(FUSE_DEVICE);
+    return { status: "ok", subject: "fuse", message: "available", hints: [] };
+  } catch {
+    return {
+      status: "unhealthy",
+      subject: "fuse",
+      message: `${FUSE_DEVICE} is missing`,
+      hints: [
+        "Run the container with --device /dev/fuse --cap-add SYS_ADMIN " +
+          "--security-opt apparmor:unconfined, or with --privileged",
+      ],
+    };
+  }
+}
+
+async function rcloneConfigCheck(config: Config): Promise<Diagnosis[]> {
+  const issues = await checkEnvironment(config);
+  if (issues.length === 0) {
+    return [
+      {
+        status: "ok",
+        subject: "rclone.conf",
+        message: "defines every configured remote",
+        hints: [],
+      },
+    ];
+  }
+  return issues.map((issue) => ({
+    status: "unhealthy",
+    subject: "rclone.conf",
+    message: `${issue.field}: ${issue.message}`,
+    hints: [
+      `Mount your rclone config file at ${RCLONE_CONFIG}`,
+      `List its remotes: rclone --config ${RCLONE_CONFIG} listremotes`,
+    ],
+  }));
+}
+
+async function schedulerCheck(config: Config): Promise<Diagnosis> {
+  let status: ProgramStatus | null;
+  try {
+    status = await getProgramStatus("scheduler");
+  } catch (error) {
+    return {
+      status: "unhealthy",
+      subject: "process scheduler",
+      message: (error as Error).message,
+      hints: [],
+    };
+  }
+  if (status?.state !== "RUNNING") {
+    return {
+      status: "unhealthy",
+      subject: "process scheduler",
+      message: status ? status.state : "not defined in supervisord",
+      hints: [
+        "Scheduled and pressure moves do not run without it",
+        "Check its output: neomount logs scheduler",
+      ],
+    };
+  }
+  const next = nextFireTime(parseCron(config.move.schedule), new Date());
+  return {
+    status: "ok",
+    subject: "process scheduler",
+    message: next
+      ? `RUNNING, next move at ${next.toISOString()}`
+      : `RUNNING, but "${config.move.schedule}" never fires`,
+    hints: [],
+  };
+}
+
+/**
+ * What to look at for a failed health check
+ */
+function healthHints(
+  check: HealthCheck,
+  config: Config,
+  remotes: RemoteMount[]
+): string[] {
+  const remote = remotes.find(
+    (remote) =>
+      remote.program === check.target || remote.mountPath === check.target
+  );
+
+  switch (check.check) {
+    case "process":
+      if (remote) {
+        return [
+          `Check its output: neomount logs ${remote.program}`,
+          `Check the remote is reachable: rclone --config ${RCLONE_CONFIG} ` +
+            `lsd ${remote.remote}:`,
+        ];
+      }
+      return [
+        "Check its output: neomount logs mergerfs",
+        "mergerfs waits for every rclone mount to be ready; fix those first",
+      ];
+    case "mount":
+      if (remote && check.message.startsWith("mountpoint")) {
+        return [
+          `rclone is not serving it; check its output: neomount logs ${remote.program}`,
+        ];
+      }
+      if (remote) {
+        return [
+          "A hung or crashed rclone leaves its mount failing with " +
+            '"Transport endpoint is not connected"',
+          `The watchdog restarts it; to do it now: supervisorctl restart ${remote.program}`,
+        ];
+      }
+      return [
+        "mergerfs needs every rclone mount; check those first",
+        "To remount it: supervisorctl restart mergerfs",
+      ];
+    case "local":
+      if (check.status === "unhealthy") {
+        return [
+          `Check the volume mounted at ${config.localPath} exists and is writable`,
+        ];
+      }
+      return [
+        "Upload what is waiting now: neomount move",
+        "To move early whenever it fills up, set MOVE_MIN_FREE, or " +
+          "MOVE_HIGH_WATER and MOVE_LOW_WATER",
+      ];
+    case "move":
+      return [
+        "See what failed: neomount history",
+        "Read the move output: neomount logs move",
+      ];
+    default:
+      return [];
+  }
+}
+
+export async function diagnose(config: Config): Promise<Diagnosis[]> {
+  const remotes = getRemoteMounts(config);
+  const [fuse, rcloneConfig, health, scheduler] = await Promise.all([
+    fuseCheck(),
+    rcloneConfigCheck(config),
+    checkHealth(config),
+    schedulerCheck(config),
+  ]);
+
+  const checks = await Promise.all(
+    health.checks.map(async (check): Promise<Diagnosis> => {
+      let message = check.message;
+      if (check.check === "process" && check.status !== "ok") {
+        const error = await lastError(check.target);
+        if (error) message += `; last error: ${error}`;
+      }
+      return {
+        status: check.status,
+        subject: `${check.check} ${check.target}`,
+        message,
+        hints: check.status === "ok" ? [] : healthHints(check, config, remotes),
+      };
+    })
+  );
+
+  return [fuse, ...rcloneConfig, ...checks, scheduler];
+}
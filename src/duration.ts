@@ -0,0 +1,52 @@
+/**
+ * Parsing of human-friendly durations such as `30s`, `15m` or `1h30m`
+ */
+
+const UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration into milliseconds. A bare number is taken as seconds.
+ */
+export function parseDuration(input: string): number {
+  const text = input.trim();
+  if (/^\d+(\.\d+)?$/.test(text)) return Number(text) * 1000;
+
+  const parts = [...text.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h|d)/g)];
+  if (parts.length === 0 || parts.map((p) => p[0]).join("") !== text) {
+    throw new Error(`"${input}" is not a valid duration (e.g. 30s, 15m, 1h)`);
+  }
+
+  return parts.reduce(
+    (total, [, amount, unit]) =>
+      total + Number(amount) * (UNITS[unit as string] ?? 0),
+    0
+  );
+}
+
+/**
+ * Format milliseconds as a compact duration, e.g. `1h5m`
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+
+  let remaining = Math.round(ms / 1000);
+  const parts: string[] = [];
+  for (const [unit, size] of [
+    ["d", 86400],
+    ["h", 3600],
+    ["m", 60],
+    ["s", 1],
+  ] as const) {
+    if (remaining >= size) {
+      parts.push(`${Math.floor(remaining / size)}${unit}`);
+      remaining %= size;
+    }
+  }
+  return parts.join("");
+}
@@ -0,0 +1,210 @@
+/**
+ * Filter rules for the move job, in rclone's `--filter` syntax: `- pattern`
+ * excludes matching files, `+ pattern` includes them, and the first rule
+ * that matches a file decides. Files no rule matches are moved.
+ */
+
+export class FilterParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FilterParseError";
+  }
+}
+
+export interface FilterRule {
+  action: "include" | "exclude";
+  pattern: string;
+}
+
+/** Files that failed post-move verification, kept under LOCAL_PATH */
+export const QUARANTINE_DIR = ".quarantine";
+
+/** Start of the name of the file the health check writes to LOCAL_PATH */
+export const HEALTH_PROBE_PREFIX = ".neomount-health-";
+
+/**
+ * Temporary files written by download clients and sync tools, the
+ * quarantine directory and the health check's probe file
+ */
+export const DEFAULT_MOVE_FILTERS: FilterRule[] = [
+  { action: "exclude", pattern: "*.part" },
+  { action: "exclude", pattern: "*.!qB" },
+  { action: "exclude", pattern: ".sync/**" },
+  { action: "exclude", pattern: `/${QUARANTINE_DIR}/**` },
+  { action: "exclude", pattern: `/${HEALTH_PROBE_PREFIX}*` },
+];
+
+export function parseFilterRule(input: string): FilterRule {
+  const match = input.trim().match(/^([+-])\s+(\S.*)$/);
+  if (!match) {
+    throw new FilterParseError(
+      `"${input.trim()}" must be "+ pattern" or "- pattern"`
+    );
+  }
+  const rule: FilterRule = {
+    action: match[1] === "+" ? "include" : "exclude",
+    pattern: match[2] as string,
+  };
+  globToRegExp(rule.pattern);
+  return rule;
+}
+
+export function formatFilterRule(rule: FilterRule): string {
+  return `${rule.action === "include" ? "+" : "-"} ${rule.pattern}`;
+}
+
+/**
+ * The rules the move job applies: the configured rules first, so they can
+ * override the defaults, then the defaults
+ */
+export function effectiveFilters(rules: FilterRule[]): FilterRule[] {
+  return [...rules, ...DEFAULT_MOVE_FILTERS];
+}
+
+/**
+ * Translate an rclone glob into a regular expression over a path relative to
+ * the move source. A pattern starting with `/` is anchored at the root;
+ * otherwise it matches the end of the path at a directory boundary.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let braceDepth = 0;
+
+  const anchored = pattern.startsWith("/");
+  const glob = anchored ? pattern.slice(1) : pattern;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i] as string;
+
+    if (char === "\\") {
+      const next = glob[i + 1];
+      if (next === undefined) {
+        throw new FilterParseError(`trailing backslash in "${pattern}"`);
+      }
+      source += escapeRegExp(next);
+      i++;
+    } else if (char === "*") {
+      if (glob[i + 1] === "*") {
+        source += ".*";
+        i++;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 2);
+      if (end === -1) {
+        throw new FilterParseError(`unterminated [ in "${pattern}"`);
+      }
+      const set = glob.slice(i + 1, end).replace(/^!/, "^");
+      source += `[${set.replace(/\\/g, "\\\\")}]`;
+      i = end;
+    } else if (char === "{") {
+      source += "(?:";
+      braceDepth++;
+    } else if (char === "}" && braceDepth > 0) {
+      source += ")";
+      braceDepth--;
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  if (braceDepth > 0) {
+    throw new FilterParseError(`unterminated { in "${pattern}"`);
+  }
+
+  try {
+    return new RegExp(`${anchored ? "^" : "(?:^|/)"}${source}$`);
+  } catch (error) {
+    throw new FilterParseError(`invalid pattern "${pattern}"`);
+  }
+}
+
+/**
+ * Split a glob into path segments at the slashes that are not escaped
+ */
+function splitGlob(glob: string): string[] {
+  const segments = [""];
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i] as string;
+    if (char === "/") {
+      segments.push("");
+    } else if (char === "\\") {
+      // Kept escaped, together with the character it escapes
+      segments[segments.length - 1] += glob.slice(i, i + 2);
+      i++;
+    } else {
+      segments[segments.length - 1] += char;
+    }
+  }
+  return segments;
+}
+
+/**
+ * Rewrite a rule written against paths relative to LOCAL_PATH for a move
+ * source `prefix` below it. Anchored patterns lose the prefix, e.g.
+ * `/tv/extras/**` becomes `/extras/**` for `tv`; null is returned for
+ * anchored patterns that only match outside the prefix. Unanchored patterns
+ * match at any depth and are returned unchanged. Throws FilterParseError if
+ * a wildcard within the prefix leaves unclear what the pattern becomes.
+ */
+export function rebaseFilterRule(
+  rule: FilterRule,
+  prefix: string
+): FilterRule | null {
+  if (!rule.pattern.startsWith("/")) return rule;
+  const segments = splitGlob(rule.pattern.slice(1));
+
+  for (const directory of prefix.split("/")) {
+    const segment = segments.shift();
+    // Ends above the prefix, so only matches one of its parent directories
+    if (segment === undefined) return null;
+    const last = segments.length === 0;
+    // A trailing ** covers everything below, the prefix included
+    if (last && segment === "**") return { ...rule, pattern: "/**" };
+    // Without ** the last segment only matches at its own depth, which is
+    // above the files of the route
+    if (last && !segment.includes("**")) return null;
+    if (/[*?[{]/.test(segment.replace(/\\./g, ""))) {
+      throw new FilterParseError(
+        `"${rule.pattern}" has a wildcard within "${prefix}", so it cannot ` +
+          `be applied to that route`
+      );
+    }
+    if (segment.replace(/\\(.)/g, "$1") !== directory) return null;
+  }
+
+  // A trailing slash right after the prefix names the route's directory
+  if (segments.join("/") === "") return { ...rule, pattern: "/**" };
+  return { ...rule, pattern: `/${segments.join("/")}` };
+}
+
+/**
+ * Escape glob metacharacters so the pattern matches only this exact path
+ */
+export function escapeGlob(path: string): string {
+  return path.replace(/[*?[\]{}\\]/g, "\\$&");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+/**
+ * Build a function returning the first rule that matches a path relative to
+ * the move source, or null if no rule matches
+ */
+export function createFilterMatcher(
+  rules: FilterRule[]
+): (path: string) => FilterRule | null {
+  const compiled = rules.map((rule) => ({
+    rule,
+    regExp: globToRegExp(rule.pattern),
+  }));
+  return (path) =>
+    compiled.find(({ regExp }) => regExp.test(path))?.rule ?? null;
+}
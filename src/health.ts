@@ -0,0 +1,162 @@
+import { rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { Config } from "./config/schema.js";
+import { formatDuration } from "./duration.js";
+import { HEALTH_PROBE_PREFIX } from "./filters.js";
+import { getDiskSpace } from "./local-usage.js";
+import { getLastRun } from "./move/runner.js";
+import { getRemoteMounts } from "./remotes.js";
+import { formatBytes } from "./size.js";
+import { getProgramStatuses, type ProgramStatus } from "./supervisor.js";
+import { probeMount } from "./watchdog/probe.js";
+
+/**
+ * Layered health check: the rclone and mergerfs processes, the mounts they
+ * serve, the local buffer and the last move job. A broken layer that makes
+ * the merged view unusable is unhealthy; a problem that needs attention but
+ * leaves the mounts working is degraded.
+ */
+
+export type CheckStatus = "ok" | "degraded" | "unhealthy";
+export type HealthStatus = "healthy" | "degraded" | "unhealthy";
+
+export interface HealthCheck {
+  /** Layer checked: `process`, `mount`, `local` or `move` */
+  check: string;
+  /** Program name or path the check is about */
+  target: string;
+  status: CheckStatus;
+  message: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  checkedAt: string;
+  durationMs: number;
+  checks: HealthCheck[];
+}
+
+const MERGERFS_PROGRAM = "mergerfs";
+
+async function processChecks(programs: string[]): Promise<HealthCheck[]> {
+  let statuses: ProgramStatus[];
+  try {
+    statuses = await getProgramStatuses();
+  } catch (error) {
+    return programs.map((program) => ({
+      check: "process",
+      target: program,
+      status: "unhealthy",
+      message: (error as Error).message,
+    }));
+  }
+
+  return programs.map((program) => {
+    const status = statuses.find((s) => s.name === program);
+    return {
+      check: "process",
+      target: program,
+      status: status?.state === "RUNNING" ? "ok" : "unhealthy",
+      message: status ? status.state : "not defined in supervisord",
+    };
+  });
+}
+
+async function mountCheck(path: string, timeout: number): Promise<HealthCheck> {
+  const result = await probeMount(path, timeout);
+  return {
+    check: "mount",
+    target: path,
+    status: result.ok ? "ok" : "unhealthy",
+    message: result.ok
+      ? `responded in ${formatDuration(result.durationMs)}`
+      : `${result.operation} failed: ${result.error}`,
+  };
+}
+
+/**
+ * LOCAL_PATH receives every new file, so it must be writable; running low
+ * on space is only degraded because mergerfs stops creating files there
+ * before it is actually full
+ */
+async function localCheck(config: Config): Promise<HealthCheck> {
+  const check = (status: CheckStatus, message: string): HealthCheck => ({
+    check: "local",
+    target: config.localPath,
+    status,
+    message,
+  });
+
+  // Excluded by the built-in move filters, so never picked up by a move
+  const probe = join(config.localPath, `${HEALTH_PROBE_PREFIX}${process.pid}`);
+  try {
+    await writeFile(probe, "");
+    await rm(probe);
+  } catch (error) {
+    return check("unhealthy", `not writable: ${(error as Error).message}`);
+  }
+
+  const space = await getDiskSpace(config.localPath);
+  const free = `${formatBytes(space.freeBytes)} free`;
+  if (space.freeBytes < config.health.minFree) {
+    return check(
+      "degraded",
+      `${free}, below ${formatBytes(config.health.minFree)}`
+    );
+  }
+  return check("ok", free);
+}
+
+async function moveCheck(): Promise<HealthCheck> {
+  const run = await getLastRun();
+  const check = (status: CheckStatus, message: string): HealthCheck => ({
+    check: "move",
+    target: "last run",
+    status,
+    message,
+  });
+
+  if (!run) return check("ok", "no move has run yet");
+  if (run.status === "failed") {
+    return check(
+      "degraded",
+      `run ${run.id} started at ${run.startedAt} failed` +
+        (run.exitCode !== null ? ` with exit code ${run.exitCode}` : "")
+    );
+  }
+  return check("ok", `run ${run.id} ${run.status}`);
+}
+
+function overallStatus(checks: HealthCheck[]): HealthStatus {
+  if (checks.some((check) => check.status === "unhealthy")) return "unhealthy";
+  if (checks.some((check) => check.status === "degraded")) return "degraded";
+  return "healthy";
+}
+
+/**
+ * Run every check in parallel and combine them into a report
+ */
+export async function checkHealth(config: Config): Promise<HealthReport> {
+  const started = Date.now();
+  const remotes = getRemoteMounts(config);
+  const { timeout } = config.health;
+
+  const results = await Promise.all([
+    processChecks([
+      ...remotes.map((remote) => remote.program),
+      MERGERFS_PROGRAM,
+    ]),
+    ...remotes.map((remote) => mountCheck(remote.mountPath, timeout)),
+    mountCheck(config.mergerfs.mountPath, timeout),
+    localCheck(config),
+    moveCheck(),
+  ]);
+  const checks = results.flat();
+
+  return {
+    status: overallStatus(checks),
+    checkedAt: new Date(started).toISOString(),
+    durationMs: Date.now() - started,
+    checks,
+  };
+}
@@ -0,0 +1,107 @@
+import type { Stats } from "node:fs";
+import { lstat, readdir, statfs } from "node:fs/promises";
+import { join, relative } from "node:path";
+import { createFilterMatcher, type FilterRule } from "./filters.js";
+
+/**
+ * Usage of the local buffer (LOCAL_PATH): what is waiting to be uploaded and
+ * how much room is left on the filesystem holding it
+ */
+
+export interface PendingUpload {
+  files: number;
+  bytes: number;
+}
+
+export interface DiskSpace {
+  totalBytes: number;
+  freeBytes: number;
+}
+
+export interface PendingFile {
+  /** Path relative to the scanned root */
+  path: string;
+  bytes: number;
+  modifiedAt: Date;
+}
+
+/**
+ * Visit every regular file under a directory. Entries that vanish during the
+ * walk (e.g. moved by a running move job) are ignored.
+ */
+export async function walkFiles(
+  root: string,
+  visit: (path: string, stats: Stats) => void
+): Promise<void> {
+  const directories = [root];
+
+  while (directories.length > 0) {
+    const directory = directories.pop() as string;
+    let entries;
+    try {
+      entries = await readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") continue;
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const path = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        directories.push(path);
+      } else if (entry.isFile()) {
+        try {
+          visit(path, await lstat(path));
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Count the regular files and bytes under a directory that the filter rules
+ * do not exclude, i.e. what a move would upload
+ */
+export async function scanPending(
+  root: string,
+  filters: FilterRule[]
+): Promise<PendingUpload> {
+  const match = createFilterMatcher(filters);
+  const result: PendingUpload = { files: 0, bytes: 0 };
+  await walkFiles(root, (path, stats) => {
+    if (match(relative(root, path))?.action === "exclude") return;
+    result.files++;
+    result.bytes += stats.size;
+  });
+  return result;
+}
+
+/**
+ * List the regular files under a directory with their size and modification
+ * time
+ */
+export async function listPending(root: string): Promise<PendingFile[]> {
+  const files: PendingFile[] = [];
+  await walkFiles(root, (path, stats) => {
+    files.push({
+      path: relative(root, path),
+      bytes: stats.size,
+      modifiedAt: stats.mtime,
+    });
+  });
+  return files;
+}
+
+/**
+ * Free and total space of the filesystem holding a path, as seen by an
+ * unprivileged writer
+ */
+export async function getDiskSpace(path: string): Promise<DiskSpace> {
+  const stats = await statfs(path);
+  return {
+    totalBytes: stats.blocks * stats.bsize,
+    freeBytes: stats.bavail * stats.bsize,
+  };
+}
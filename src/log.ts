@@ -0,0 +1,108 @@
+/**
+ * Structured logging shared by the neomount services. Each record is written
+ * as one JSON object per line; the logs service merges these with the output
+ * of rclone, mergerfs and the shell scripts into the container's stdout.
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** In increasing order of severity */
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+export interface LogRecord {
+  /** ISO 8601 timestamp */
+  time: string;
+  level: LogLevel;
+  /** supervisord program, or `move` for the move job */
+  service: string;
+  msg: string;
+  fields: Record<string, unknown>;
+}
+
+export interface LoggerOptions {
+  /** Records below this level are dropped */
+  level?: LogLevel;
+  /** Where each line goes; stdout by default */
+  write?: (line: string) => void;
+  /**
+   * `json` for services, whose output the logs service collects; `text`
+   * for commands run by hand, which print the message alone
+   */
+  format?: "json" | "text";
+}
+
+export interface Logger {
+  debug(msg: string, fields?: Record<string, unknown>): void;
+  info(msg: string, fields?: Record<string, unknown>): void;
+  warn(msg: string, fields?: Record<string, unknown>): void;
+  error(msg: string, fields?: Record<string, unknown>): void;
+}
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return LOG_LEVELS.includes(value as LogLevel);
+}
+
+/**
+ * Whether a record at `level` passes a `threshold` such as LOG_LEVEL
+ */
+export function levelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
+
+/** Errors do not survive JSON.stringify on their own */
+function serializeField(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  return typeof value === "bigint" ? String(value) : value;
+}
+
+export function formatLogRecord(record: LogRecord): string {
+  return JSON.stringify(record, serializeField);
+}
+
+/** Warnings and errors keep the prefixes the logs service recognises */
+function formatText(record: LogRecord): string {
+  const prefix =
+    record.level === "error"
+      ? "ERROR: "
+      : record.level === "warn"
+      ? "WARNING: "
+      : "";
+  const error = record.fields.error;
+  return (
+    prefix + record.msg + (error instanceof Error ? `: ${error.message}` : "")
+  );
+}
+
+export function createLogger(
+  service: string,
+  options: LoggerOptions = {}
+): Logger {
+  const threshold = options.level ?? "info";
+  const write =
+    options.write ?? ((line: string) => process.stdout.write(line + "\n"));
+  const format = options.format === "text" ? formatText : formatLogRecord;
+
+  const log =
+    (level: LogLevel) =>
+    (msg: string, fields: Record<string, unknown> = {}) => {
+      if (!levelEnabled(level, threshold)) return;
+      write(
+        format({
+          time: new Date().toISOString(),
+          level,
+          service,
+          msg,
+          fields,
+        })
+      );
+    };
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+  };
+}
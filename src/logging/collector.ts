@@ -0,0 +1,213 @@
+import { open, readdir, readFile, rename, writeFile } from "node:fs/promises";
+import { basename, join } from "node:path";
+import {
+  createLogger,
+  formatLogRecord,
+  levelEnabled,
+  type Logger,
+  type LogLevel,
+} from "../log.js";
+import { LOG_OFFSETS_FILE, MOVE_LOG, SUPERVISOR_LOG_DIR } from "../paths.js";
+import { parseLogLine, type LogStream } from "./parse.js";
+
+/**
+ * Follows the log file of every supervisord program, and the move job's log,
+ * and writes each new line to stdout as a JSON record. supervisord keeps
+ * writing its usual per-program files; this turns them into the one stream
+ * `docker logs` shows. Offsets are saved after every read, so a restart of
+ * the logs service picks up where it stopped.
+ */
+
+export interface LogCollectorOptions {
+  /** Records below this level are dropped */
+  level: LogLevel;
+}
+
+export interface LogCollector {
+  stop(): void;
+}
+
+interface LogFile {
+  path: string;
+  service: string;
+  stream: LogStream;
+}
+
+interface FileOffset {
+  /** Inode of the file read; a new one means it was rotated or recreated */
+  ino: number;
+  offset: number;
+}
+
+type Offsets = Record<string, FileOffset>;
+
+const POLL_INTERVAL = 1_000;
+
+/** Most read from one file per poll, so one busy log cannot starve the rest */
+const MAX_READ = 1024 * 1024;
+
+/** Program whose own output this is */
+const SERVICE = "logs";
+
+/**
+ * `rclone.log` holds the rclone program's stdout, `rclone_error.log` its
+ * stderr. Rotated backups (`rclone.log.1`) are skipped.
+ */
+function logFileSource(
+  name: string
+): { service: string; stream: LogStream } | null {
+  const match = name.match(/^(.+?)(_error)?\.log$/);
+  if (!match) return null;
+  const [, service = "", error] = match;
+  return { service, stream: error ? "stderr" : "stdout" };
+}
+
+async function listLogFiles(): Promise<LogFile[]> {
+  let entries: string[] = [];
+  try {
+    entries = await readdir(SUPERVISOR_LOG_DIR);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+
+  const files: LogFile[] = [];
+  for (const entry of entries.sort()) {
+    const source = logFileSource(entry);
+    if (!source || source.service === SERVICE) continue;
+    files.push({ path: join(SUPERVISOR_LOG_DIR, entry), ...source });
+  }
+  // Both output streams of every move job, which the job appends itself
+  files.push({ path: MOVE_LOG, service: "move", stream: "stdout" });
+  return files;
+}
+
+async function loadOffsets(): Promise<Offsets> {
+  try {
+    return JSON.parse(await readFile(LOG_OFFSETS_FILE, "utf8")) as Offsets;
+  } catch {
+    return {};
+  }
+}
+
+async function saveOffsets(offsets: Offsets): Promise<void> {
+  const temp = `${LOG_OFFSETS_FILE}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(offsets));
+  await rename(temp, LOG_OFFSETS_FILE);
+}
+
+/**
+ * Complete lines appended to a file since `previous`. A line still being
+ * written is left for the next read, unless it alone fills MAX_READ.
+ */
+async function readNewLines(
+  path: string,
+  previous: FileOffset | undefined
+): Promise<{ lines: string[]; offset: FileOffset } | null> {
+  let handle;
+  try {
+    handle = await open(path, "r");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+
+  try {
+    const { ino, size } = await handle.stat();
+    // Start over on a new file, or one that was truncated
+    let offset =
+      previous && previous.ino === ino && previous.offset <= size
+        ? previous.offset
+        : 0;
+    if (offset === size) return { lines: [], offset: { ino, offset } };
+
+    const buffer = Buffer.alloc(Math.min(size - offset, MAX_READ));
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, offset);
+    const chunk = buffer.subarray(0, bytesRead);
+
+    const end = chunk.lastIndexOf(0x0a);
+    const complete =
+      end === -1 && bytesRead === MAX_READ ? chunk : chunk.subarray(0, end + 1);
+    offset += complete.length;
+
+    const lines = complete
+      .toString("utf8")
+      .split("\n")
+      .filter((line) => line.trim());
+    return { lines, offset: { ino, offset } };
+  } finally {
+    await handle.close();
+  }
+}
+
+function writeStdout(line: string): Promise<void> {
+  return new Promise((resolve) => {
+    if (process.stdout.write(line + "\n")) resolve();
+    else process.stdout.once("drain", resolve);
+  });
+}
+
+async function collect(
+  options: LogCollectorOptions,
+  offsets: Offsets,
+  log: Logger
+): Promise<void> {
+  let changed = false;
+
+  for (const file of await listLogFiles()) {
+    let read;
+    try {
+      read = await readNewLines(file.path, offsets[file.path]);
+    } catch (error) {
+      log.warn(`Failed to read ${basename(file.path)}`, {
+        path: file.path,
+        error,
+      });
+      continue;
+    }
+    if (!read) continue;
+
+    for (const line of read.lines) {
+      const record = parseLogLine(line, file);
+      if (levelEnabled(record.level, options.level)) {
+        await writeStdout(formatLogRecord(record));
+      }
+    }
+
+    const previous = offsets[file.path];
+    if (previous?.ino !== read.offset.ino) changed = true;
+    if (previous?.offset !== read.offset.offset) changed = true;
+    offsets[file.path] = read.offset;
+  }
+
+  if (changed) await saveOffsets(offsets);
+}
+
+export function startLogCollector(options: LogCollectorOptions): LogCollector {
+  const log = createLogger(SERVICE, { level: options.level });
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = false;
+  let offsets: Offsets | null = null;
+
+  const poll = async () => {
+    offsets ??= await loadOffsets();
+    await collect(options, offsets, log);
+  };
+
+  const scheduleNext = (delay: number) => {
+    if (stopped) return;
+    timer = setTimeout(() => {
+      poll()
+        .catch((error) => log.error("Failed to collect logs", { error }))
+        .finally(() => scheduleNext(POLL_INTERVAL));
+    }, delay);
+  };
+
+  scheduleNext(0);
+
+  return {
+    stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
@@ -0,0 +1,154 @@
+import { isLogLevel, type LogLevel, type LogRecord } from "../log.js";
+
+/**
+ * Turn a line from a service's log file into a structured record. Lines are
+ * one of: records from the shared logger, passed through unchanged; rclone
+ * --use-json-log objects; rclone and supervisord text logs, which carry their
+ * own timestamp and level; or plain output such as the shell scripts' echoes
+ * and mergerfs messages.
+ */
+
+export type LogStream = "stdout" | "stderr";
+
+export interface LineSource {
+  service: string;
+  stream: LogStream;
+}
+
+const RCLONE_LEVELS: Record<string, LogLevel> = {
+  debug: "debug",
+  info: "info",
+  notice: "info",
+  warning: "warn",
+  error: "error",
+  critical: "error",
+  alert: "error",
+  emergency: "error",
+};
+
+const SUPERVISOR_LEVELS: Record<string, LogLevel> = {
+  BLAT: "debug",
+  TRAC: "debug",
+  DEBG: "debug",
+  INFO: "info",
+  WARN: "warn",
+  ERRO: "error",
+  CRIT: "error",
+};
+
+// e.g. "2024/01/02 15:04:05 NOTICE: Serving remote control on ..."
+const RCLONE_TEXT_PATTERN =
+  /^(\d{4})\/(\d{2})\/(\d{2}) (\d{2}:\d{2}:\d{2})\s+([A-Z]+)\s*:\s?(.*)$/;
+
+// e.g. "2024-01-02 15:04:05,123 INFO spawned: 'rclone' with pid 12"
+const SUPERVISOR_PATTERN =
+  /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}),(\d{3}) ([A-Z]{4}) (.*)$/;
+
+/** Both text formats above are in the container's local time */
+function localTime(date: string, time: string): string {
+  const parsed = new Date(`${date}T${time}`);
+  return isNaN(parsed.getTime())
+    ? new Date().toISOString()
+    : parsed.toISOString();
+}
+
+/**
+ * Level of a plain line, from the prefixes the shell scripts use
+ */
+function plainLevel(line: string, stream: LogStream): LogLevel {
+  if (/^(ERROR|FATAL)\b/i.test(line)) return "error";
+  if (/^WARN(ING)?\b/i.test(line)) return "warn";
+  return stream === "stderr" ? "error" : "info";
+}
+
+function parseJson(
+  line: string,
+  source: LineSource,
+  now: string
+): LogRecord | null {
+  let object: unknown;
+  try {
+    object = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  if (!object || typeof object !== "object" || Array.isArray(object)) {
+    return null;
+  }
+  const record = object as Record<string, unknown>;
+  if (typeof record.msg !== "string" || typeof record.level !== "string") {
+    return null;
+  }
+
+  // Already written by the shared logger
+  if (
+    typeof record.service === "string" &&
+    typeof record.time === "string" &&
+    isLogLevel(record.level) &&
+    record.fields &&
+    typeof record.fields === "object"
+  ) {
+    return record as unknown as LogRecord;
+  }
+
+  const { time, level, msg, ...fields } = record;
+  return {
+    time: typeof time === "string" ? time : now,
+    level: RCLONE_LEVELS[level as string] ?? "info",
+    service: source.service,
+    msg: msg as string,
+    fields,
+  };
+}
+
+export function parseLogLine(
+  line: string,
+  source: LineSource,
+  now = new Date().toISOString()
+): LogRecord {
+  const text = line.trimEnd();
+
+  if (text.startsWith("{")) {
+    const record = parseJson(text, source, now);
+    if (record) return record;
+  }
+
+  const rclone = text.match(RCLONE_TEXT_PATTERN);
+  if (rclone) {
+    const [, year, month, day, time = "", level = "", msg = ""] = rclone;
+    const rcloneLevel = RCLONE_LEVELS[level.toLowerCase()];
+    if (rcloneLevel) {
+      return {
+        time: localTime(`${year}-${month}-${day}`, time),
+        level: rcloneLevel,
+        service: source.service,
+        msg: msg.trim(),
+        fields: {},
+      };
+    }
+  }
+
+  const supervisor = text.match(SUPERVISOR_PATTERN);
+  if (supervisor) {
+    const [, date = "", time = "", millis = "", level = "", msg = ""] =
+      supervisor;
+    const supervisorLevel = SUPERVISOR_LEVELS[level];
+    if (supervisorLevel) {
+      return {
+        time: localTime(date, `${time}.${millis}`),
+        level: supervisorLevel,
+        service: source.service,
+        msg,
+        fields: {},
+      };
+    }
+  }
+
+  return {
+    time: now,
+    level: plainLevel(text, source.stream),
+    service: source.service,
+    msg: text,
+    fields: {},
+  };
+}
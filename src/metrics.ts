@@ -0,0 +1,357 @@
+import type { Config } from "./config/schema.js";
+import { effectiveFilters } from "./filters.js";
+import type { Logger } from "./log.js";
+import { getMountStatuses } from "./mounts.js";
+import {
+  getDiskSpace,
+  scanPending,
+  type PendingUpload,
+} from "./local-usage.js";
+import { readHistory } from "./move/history.js";
+import type { VfsStats } from "./rc.js";
+import { getRemoteMounts } from "./remotes.js";
+import { getProgramStatuses, getRestartCounts } from "./supervisor.js";
+import { getVfsStats } from "./vfs.js";
+import { readRecoveryEvents } from "./watchdog/events.js";
+
+/**
+ * Prometheus metrics in the text exposition format
+ */
+
+type Labels = Record<string, string>;
+
+export interface Metric {
+  name: string;
+  help: string;
+  type: "gauge" | "counter";
+  samples: { labels?: Labels; value: number }[];
+}
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels | undefined): string {
+  if (!labels || Object.keys(labels).length === 0) return "";
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabel(value)}"`
+  );
+  return `{${pairs.join(",")}}`;
+}
+
+export function formatMetrics(metrics: Metric[]): string {
+  const lines: string[] = [];
+  for (const metric of metrics) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    for (const sample of metric.samples) {
+      lines.push(
+        `${metric.name}${formatLabels(sample.labels)} ${sample.value}`
+      );
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** Walking LOCAL_PATH is expensive, so reuse the result between scrapes */
+const PENDING_CACHE_MS = 30000;
+let pendingCache: { at: number; value: PendingUpload } | null = null;
+
+async function getPending(config: Config): Promise<PendingUpload> {
+  if (pendingCache && Date.now() - pendingCache.at < PENDING_CACHE_MS) {
+    return pendingCache.value;
+  }
+  const value = await scanPending(
+    config.localPath,
+    effectiveFilters(config.move.filters)
+  );
+  pendingCache = { at: Date.now(), value };
+  return value;
+}
+
+async function mountMetrics(config: Config): Promise<Metric[]> {
+  const remotes = getRemoteMounts(config);
+  const mounts = await getMountStatuses([
+    ...remotes.map((remote) => remote.mountPath),
+    config.mergerfs.mountPath,
+  ]);
+  const names = [...remotes.map((remote) => remote.program), "mergerfs"];
+
+  return [
+    {
+      name: "neomount_mount_up",
+      help: "Whether the mount point is mounted (1) or not (0)",
+      type: "gauge",
+      samples: mounts.map((mount, i) => ({
+        labels: { mount: names[i] ?? "", path: mount.path },
+        value: mount.mounted ? 1 : 0,
+      })),
+    },
+  ];
+}
+
+async function localMetrics(config: Config): Promise<Metric[]> {
+  const [pending, space] = await Promise.all([
+    getPending(config),
+    getDiskSpace(config.localPath),
+  ]);
+  const labels = { path: config.localPath };
+
+  return [
+    {
+      name: "neomount_local_pending_bytes",
+      help: "Bytes in LOCAL_PATH waiting to be uploaded",
+      type: "gauge",
+      samples: [{ labels, value: pending.bytes }],
+    },
+    {
+      name: "neomount_local_pending_files",
+      help: "Files in LOCAL_PATH waiting to be uploaded",
+      type: "gauge",
+      samples: [{ labels, value: pending.files }],
+    },
+    {
+      name: "neomount_local_free_bytes",
+      help: "Free space on the filesystem holding LOCAL_PATH",
+      type: "gauge",
+      samples: [{ labels, value: space.freeBytes }],
+    },
+    {
+      name: "neomount_local_size_bytes",
+      help: "Size of the filesystem holding LOCAL_PATH",
+      type: "gauge",
+      samples: [{ labels, value: space.totalBytes }],
+    },
+  ];
+}
+
+async function moveMetrics(): Promise<Metric[]> {
+  const history = await readHistory();
+  const byStatus = new Map<string, number>();
+  let bytesTotal = 0;
+  let filesTotal = 0;
+
+  for (const entry of history) {
+    byStatus.set(entry.status, (byStatus.get(entry.status) ?? 0) + 1);
+    bytesTotal += entry.stats?.bytes ?? 0;
+    filesTotal += entry.stats?.files ?? 0;
+  }
+
+  const last = history[0];
+  const lastSuccess = history.find((entry) => entry.status === "succeeded");
+  const seconds = (iso: string | null | undefined) =>
+    iso ? Date.parse(iso) / 1000 : 0;
+
+  return [
+    {
+      name: "neomount_move_runs_total",
+      help: "Finished move runs by status",
+      type: "counter",
+      samples: ["succeeded", "failed", "cancelled", "skipped"].map(
+        (status) => ({ labels: { status }, value: byStatus.get(status) ?? 0 })
+      ),
+    },
+    {
+      name: "neomount_move_bytes_total",
+      help: "Bytes transferred by move runs",
+      type: "counter",
+      samples: [{ value: bytesTotal }],
+    },
+    {
+      name: "neomount_move_files_total",
+      help: "Files transferred by move runs",
+      type: "counter",
+      samples: [{ value: filesTotal }],
+    },
+    {
+      name: "neomount_move_last_duration_seconds",
+      help: "Duration of the most recent move run",
+      type: "gauge",
+      samples: [
+        {
+          value: last?.finishedAt
+            ? seconds(last.finishedAt) - seconds(last.startedAt)
+            : 0,
+        },
+      ],
+    },
+    {
+      name: "neomount_move_last_bytes",
+      help: "Bytes transferred by the most recent move run",
+      type: "gauge",
+      samples: [{ value: last?.stats?.bytes ?? 0 }],
+    },
+    {
+      name: "neomount_move_last_errors",
+      help: "Errors reported by the most recent move run",
+      type: "gauge",
+      samples: [{ value: last?.stats?.errors ?? 0 }],
+    },
+    {
+      name: "neomount_move_last_success_timestamp_seconds",
+      help: "Unix time the most recent successful move run finished",
+      type: "gauge",
+      samples: [{ value: seconds(lastSuccess?.finishedAt) }],
+    },
+  ];
+}
+
+async function watchdogMetrics(config: Config): Promise<Metric[]> {
+  const events = await readRecoveryEvents();
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    for (const failure of event.failures) {
+      const key = `${failure.program}\0${event.outcome}`;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+
+  const programs = [
+    ...getRemoteMounts(config).map((remote) => remote.program),
+    "mergerfs",
+  ];
+  return [
+    {
+      name: "neomount_mount_recoveries_total",
+      help: "Watchdog recoveries triggered by a failed mount probe, by outcome",
+      type: "counter",
+      samples: programs.flatMap((mount) =>
+        ["recovered", "failed"].map((outcome) => ({
+          labels: { mount, outcome },
+          value: counts.get(`${mount}\0${outcome}`) ?? 0,
+        }))
+      ),
+    },
+  ];
+}
+
+async function vfsMetrics(config: Config): Promise<Metric[]> {
+  // Mounts that are down, or run without a disk cache, have no samples
+  const mounts = (await getVfsStats(config)).flatMap((mount) =>
+    mount.stats?.diskCache
+      ? [{ labels: { mount: mount.program }, cache: mount.stats.diskCache }]
+      : []
+  );
+  const gauge = (
+    name: string,
+    help: string,
+    value: (cache: NonNullable<VfsStats["diskCache"]>) => number
+  ): Metric => ({
+    name,
+    help,
+    type: "gauge",
+    samples: mounts.map((mount) => ({
+      labels: mount.labels,
+      value: value(mount.cache),
+    })),
+  });
+
+  return [
+    gauge(
+      "neomount_vfs_cache_bytes",
+      "Bytes in the rclone VFS cache of the mount",
+      (cache) => cache.bytesUsed
+    ),
+    gauge(
+      "neomount_vfs_cache_files",
+      "Files in the rclone VFS cache of the mount",
+      (cache) => cache.files
+    ),
+    gauge(
+      "neomount_vfs_cache_errored_files",
+      "Cached files rclone failed to upload or download",
+      (cache) => cache.erroredFiles
+    ),
+    gauge(
+      "neomount_vfs_uploads_in_progress",
+      "Files written through the mount being uploaded",
+      (cache) => cache.uploadsInProgress
+    ),
+    gauge(
+      "neomount_vfs_uploads_queued",
+      "Files written through the mount waiting to be uploaded",
+      (cache) => cache.uploadsQueued
+    ),
+    gauge(
+      "neomount_vfs_cache_out_of_space",
+      "Whether the disk holding the VFS cache is full (1) or not (0)",
+      (cache) => (cache.outOfSpace ? 1 : 0)
+    ),
+  ];
+}
+
+async function programMetrics(): Promise<Metric[]> {
+  const [statuses, restarts] = await Promise.all([
+    getProgramStatuses(),
+    getRestartCounts(),
+  ]);
+
+  return [
+    {
+      name: "neomount_program_up",
+      help: "Whether the supervisord program is RUNNING (1) or not (0)",
+      type: "gauge",
+      samples: statuses.map((status) => ({
+        labels: { program: status.name },
+        value: status.state === "RUNNING" ? 1 : 0,
+      })),
+    },
+    {
+      name: "neomount_program_restarts_total",
+      help: "Times supervisord has restarted the program",
+      type: "counter",
+      samples: statuses.map((status) => ({
+        labels: { program: status.name },
+        value: restarts.get(status.name) ?? 0,
+      })),
+    },
+  ];
+}
+
+/**
+ * Collect every metric. A failing collector is reported through
+ * neomount_scrape_error instead of failing the whole scrape.
+ */
+export async function collectMetrics(
+  config: Config,
+  log: Logger
+): Promise<Metric[]> {
+  const collectors: [string, () => Promise<Metric[]>][] = [
+    ["mounts", () => mountMetrics(config)],
+    ["local", () => localMetrics(config)],
+    ["move", moveMetrics],
+    ["programs", programMetrics],
+    ["watchdog", () => watchdogMetrics(config)],
+    ["vfs", () => vfsMetrics(config)],
+  ];
+
+  const results = await Promise.allSettled(collectors.map(([, fn]) => fn()));
+  const metrics: Metric[] = [];
+  const errors: Metric = {
+    name: "neomount_scrape_error",
+    help: "Whether collecting the metric group failed (1) or not (0)",
+    type: "gauge",
+    samples: [],
+  };
+
+  results.forEach((result, i) => {
+    const collector = collectors[i]?.[0] ?? "";
+    if (result.status === "fulfilled") {
+      metrics.push(...result.value);
+    } else {
+      log.error(`Collecting ${collector} metrics failed`, {
+        collector,
+        error: result.reason,
+      });
+    }
+    errors.samples.push({
+      labels: { collector },
+      value: result.status === "rejected" ? 1 : 0,
+    });
+  });
+
+  return [...metrics, errors];
+}
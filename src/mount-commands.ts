@@ -0,0 +1,86 @@
+import {
+  mergeOptions,
+  mergerfsOptionsToArgs,
+  parseMergerfsArgs,
+  parseRcloneArgs,
+  rcloneOptionsToArgs,
+  splitArgs,
+} from "./args.js";
+import type { Config } from "./config/schema.js";
+import { RCLONE_CONFIG } from "./paths.js";
+import { getRemoteMounts, type RemoteMount } from "./remotes.js";
+
+/**
+ * Effective rclone and mergerfs mount command lines, built from the core
+ * arguments, the defaults and the user's overrides
+ */
+
+/**
+ * Optimized for high-bandwidth video streaming and large file reads, using
+ * the full VFS cache for best performance
+ */
+export const DEFAULT_RCLONE_MOUNT_ARGS =
+  "--vfs-cache-mode full --vfs-cache-max-age 72h --vfs-cache-max-size 100G --dir-cache-time 1h --poll-interval 30s --attr-timeout 1h";
+
+/**
+ * Writes go to local, reads check local first then rclone
+ */
+export const DEFAULT_MERGERFS_MOUNT_ARGS =
+  "-o func.getattr=newest -o minfreespace=10G -o category.action=all -o category.create=ff -o rw";
+
+/**
+ * Every remote is mounted with the same arguments. Each mount serves the
+ * remote control API on its own socket, used to refresh directories after a
+ * move and to read cache statistics, and logs JSON for the logs service.
+ */
+export function buildRcloneMountCommand(
+  config: Config,
+  mount: RemoteMount
+): string[] {
+  const options = mergeOptions(
+    parseRcloneArgs(splitArgs(DEFAULT_RCLONE_MOUNT_ARGS)),
+    parseRcloneArgs(config.rclone.mountArgs ?? [])
+  );
+
+  return [
+    "rclone",
+    "mount",
+    "--config",
+    RCLONE_CONFIG,
+    "--allow-other",
+    "--allow-non-empty",
+    "--log-level",
+    "INFO",
+    "--use-json-log",
+    "--rc",
+    "--rc-addr",
+    `unix://${mount.rcSocket}`,
+    ...rcloneOptionsToArgs(options),
+    `${mount.remote}:${mount.remotePath}`,
+    mount.mountPath,
+  ];
+}
+
+/**
+ * LOCAL_PATH is the only writable branch; every remote follows as NC (no
+ * create) in the order configured
+ */
+export function buildMergerfsMountCommand(config: Config): string[] {
+  const options = mergeOptions(
+    parseMergerfsArgs(splitArgs(DEFAULT_MERGERFS_MOUNT_ARGS)),
+    parseMergerfsArgs(config.mergerfs.mountArgs ?? [])
+  );
+
+  return [
+    "mergerfs",
+    "-f",
+    "-o",
+    "allow_other",
+    ...mergerfsOptionsToArgs(options),
+    [
+      `${config.localPath}=RW`,
+      ...getRemoteMounts(config).map((mount) => `${mount.mountPath}=NC`),
+    ].join(":"),
+    config.mergerfs.mountPath,
+  ];
+}
@@ -0,0 +1,77 @@
+import { readFile } from "node:fs/promises";
+
+/**
+ * Mount table inspection based on /proc/self/mountinfo
+ */
+
+export interface MountStatus {
+  path: string;
+  mounted: boolean;
+  fstype: string | null;
+  source: string | null;
+}
+
+interface MountInfoEntry {
+  mountPoint: string;
+  fstype: string;
+  source: string;
+}
+
+const MOUNTINFO_PATH = "/proc/self/mountinfo";
+
+/**
+ * Undo the octal escaping the kernel applies to spaces, tabs, newlines and
+ * backslashes in mountinfo paths
+ */
+function unescapeMountPath(path: string): string {
+  return path.replace(/\\([0-7]{3})/g, (_, octal: string) =>
+    String.fromCharCode(parseInt(octal, 8))
+  );
+}
+
+/**
+ * Parse the contents of /proc/self/mountinfo. Each line looks like:
+ * `36 35 98:0 /mnt1 /mnt/parent rw,noatime master:1 - ext3 /dev/root rw`
+ */
+export function parseMountInfo(contents: string): MountInfoEntry[] {
+  const entries: MountInfoEntry[] = [];
+
+  for (const line of contents.split("\n")) {
+    const [head, tail] = line.split(" - ");
+    if (!head || !tail) continue;
+
+    const mountPoint = head.split(" ")[4];
+    const [fstype, source] = tail.split(" ");
+    if (!mountPoint || !fstype) continue;
+
+    entries.push({
+      mountPoint: unescapeMountPath(mountPoint),
+      fstype,
+      source: unescapeMountPath(source ?? ""),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Report whether each of the given paths is a mount point
+ */
+export async function getMountStatuses(
+  paths: string[]
+): Promise<MountStatus[]> {
+  const entries = parseMountInfo(await readFile(MOUNTINFO_PATH, "utf8"));
+
+  return paths.map((path) => {
+    const normalized = path.length > 1 ? path.replace(/\/+$/, "") : path;
+    // Later entries shadow earlier ones mounted on the same path
+    const entry = entries.findLast((e) => e.mountPoint === normalized);
+
+    return {
+      path,
+      mounted: entry !== undefined,
+      fstype: entry?.fstype ?? null,
+      source: entry?.source ?? null,
+    };
+  });
+}
@@ -0,0 +1,241 @@
+import { stat } from "node:fs/promises";
+import type { Logger } from "../log.js";
+import { rcCall } from "../rc.js";
+import { formatBytes, parseSize } from "../size.js";
+
+/**
+ * Time-of-day bandwidth limits for the move job. move-job.sh starts each
+ * rclone transfer with the limit in force at that moment; while a transfer
+ * runs, the scheduler service applies every change of limit to it through
+ * rclone's remote control API.
+ */
+
+export interface BandwidthWindow {
+  /** Minutes after local midnight */
+  start: number;
+  /** Minutes after local midnight; before `start` if the window spans it */
+  end: number;
+  /** Bytes per second; null means unlimited */
+  rate: number | null;
+}
+
+export interface BandwidthSchedule {
+  windows: BandwidthWindow[];
+  /** Limit outside every window, in bytes per second; null means unlimited */
+  otherwise: number | null;
+}
+
+export interface BandwidthControllerOptions {
+  schedule: BandwidthSchedule;
+  /** Remote control socket of the running move transfer */
+  socket: string;
+  log: Logger;
+}
+
+export interface BandwidthController {
+  stop(): void;
+}
+
+/** Windows start and end on whole minutes */
+const CHECK_INTERVAL = 30_000;
+
+function parseTime(text: string): number {
+  const match = text.match(/^([01]?\d|2[0-3]):([0-5]\d)$/);
+  if (!match) {
+    throw new Error(`"${text}" is not a valid time of day (e.g. 08:00)`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function formatTime(minutes: number): string {
+  const hours = String(Math.floor(minutes / 60)).padStart(2, "0");
+  return `${hours}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Parse a rate such as `10M` or `512K/s` into bytes per second. `off` and
+ * `unlimited` mean no limit.
+ */
+function parseRate(text: string): number | null {
+  if (/^(off|unlimited)$/i.test(text)) return null;
+  const rate = parseSize(text.replace(/\/s$/i, ""));
+  if (rate < 1024) {
+    throw new Error(`"${text}" must be at least 1K per second, or off`);
+  }
+  return rate;
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "off" : `${formatBytes(rate).replace(" ", "")}/s`;
+}
+
+/**
+ * Parse a schedule of `HH:MM-HH:MM RATE` windows, e.g.
+ * `08:00-23:00 10M, 23:00-01:00 50M`. A bare rate sets the limit outside
+ * every window, which is unlimited by default. Windows may span midnight;
+ * where windows overlap, the first one listed applies.
+ */
+export function parseBandwidthSchedule(
+  entries: string | string[]
+): BandwidthSchedule {
+  const schedule: BandwidthSchedule = { windows: [], otherwise: null };
+  let defaultRate: string | undefined;
+
+  const list = typeof entries === "string" ? entries.split(",") : entries;
+  for (const entry of list.map((entry) => entry.trim()).filter(Boolean)) {
+    const window = entry.match(/^(\S+)\s*-\s*(\S+)\s+(\S+)$/);
+    if (!window) {
+      if (/\s/.test(entry)) {
+        throw new Error(`"${entry}" must be HH:MM-HH:MM RATE, or a rate`);
+      }
+      if (defaultRate !== undefined) {
+        throw new Error(`more than one rate outside windows: ${entry}`);
+      }
+      defaultRate = entry;
+      schedule.otherwise = parseRate(entry);
+      continue;
+    }
+
+    const [, start = "", end = "", rate = ""] = window;
+    const parsed = {
+      start: parseTime(start),
+      end: parseTime(end),
+      rate: parseRate(rate),
+    };
+    if (parsed.start === parsed.end) {
+      throw new Error(`"${entry}" is an empty window`);
+    }
+    schedule.windows.push(parsed);
+  }
+
+  return schedule;
+}
+
+/**
+ * Render a schedule back into the form parseBandwidthSchedule accepts
+ */
+export function formatBandwidthSchedule(schedule: BandwidthSchedule): string {
+  const entries = schedule.windows.map(
+    (window) =>
+      `${formatTime(window.start)}-${formatTime(window.end)} ` +
+      formatRclone(window.rate)
+  );
+  if (schedule.otherwise !== null) {
+    entries.push(formatRclone(schedule.otherwise));
+  }
+  return entries.join(", ");
+}
+
+/**
+ * Human-readable summary, e.g. `10.0MiB/s 08:00-23:00, unlimited otherwise`
+ */
+export function describeBandwidthSchedule(schedule: BandwidthSchedule): string {
+  const otherwise =
+    schedule.otherwise === null ? "unlimited" : formatRate(schedule.otherwise);
+  if (schedule.windows.length === 0) return otherwise;
+  return [
+    ...schedule.windows.map(
+      (window) =>
+        `${formatRate(window.rate)} ${formatTime(window.start)}-` +
+        formatTime(window.end)
+    ),
+    `${otherwise} otherwise`,
+  ].join(", ");
+}
+
+/**
+ * The limit in force at `date` (local time), in bytes per second, or null
+ * for no limit
+ */
+export function bandwidthAt(
+  schedule: BandwidthSchedule,
+  date = new Date()
+): number | null {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const window = schedule.windows.find((window) =>
+    window.start < window.end
+      ? minutes >= window.start && minutes < window.end
+      : minutes >= window.start || minutes < window.end
+  );
+  return window ? window.rate : schedule.otherwise;
+}
+
+/**
+ * A limit in rclone --bwlimit form, e.g. `10240K` or `off`
+ */
+export function formatRclone(rate: number | null): string {
+  return rate === null ? "off" : `${Math.round(rate / 1024)}K`;
+}
+
+/** The limit last applied, and the transfer it was applied to */
+interface AppliedLimit {
+  transfer: string;
+  rate: number | null;
+}
+
+async function applyBandwidth(
+  options: BandwidthControllerOptions,
+  applied: AppliedLimit | null
+): Promise<AppliedLimit | null> {
+  let transfer: string;
+  try {
+    // A new socket means a new rclone transfer, started with its own limit
+    const socket = await stat(options.socket);
+    transfer = `${socket.ino}:${socket.ctimeMs}`;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+
+  const rate = bandwidthAt(options.schedule);
+  if (applied?.transfer === transfer && applied.rate === rate) return applied;
+
+  try {
+    await rcCall(options.socket, "core/bwlimit", { rate: formatRclone(rate) });
+  } catch (error) {
+    // Left behind by a transfer that has exited, or removed since the stat
+    // when it exited in between
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === "ECONNREFUSED" || code === "ENOENT") return null;
+    throw error;
+  }
+  if (applied?.rate !== rate) {
+    options.log.info(`Move bandwidth limit set to ${formatRate(rate)}`, {
+      rate,
+    });
+  }
+  return { transfer, rate };
+}
+
+/**
+ * Keep the running move transfer, if any, at the limit the schedule sets
+ * for the current time of day
+ */
+export function startBandwidthController(
+  options: BandwidthControllerOptions
+): BandwidthController {
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = false;
+  let applied: AppliedLimit | null = null;
+
+  const scheduleNext = () => {
+    if (stopped) return;
+    timer = setTimeout(() => {
+      applyBandwidth(options, applied)
+        .then((limit) => (applied = limit))
+        .catch((error) =>
+          options.log.error("Failed to set move bandwidth limit", { error })
+        )
+        .finally(scheduleNext);
+    }, CHECK_INTERVAL);
+  };
+
+  scheduleNext();
+
+  return {
+    stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { STATE_DIR } from "../paths.js";
+import type { MoveRun, MoveStatus } from "./runner.js";
+
+/**
+ * Journal of finished move runs, one JSON object per line
+ */
+
+/** A finished run as stored in the journal; output is left out */
+export type HistoryEntry = Omit<MoveRun, "output">;
+
+export interface HistoryQuery {
+  /** Maximum number of entries to return, newest first */
+  limit?: number;
+  status?: MoveStatus;
+  /** Only runs started at or after this time */
+  since?: Date;
+}
+
+export const HISTORY_FILE = join(STATE_DIR, "move-history.jsonl");
+
+const STATUSES: MoveStatus[] = [
+  "running",
+  "succeeded",
+  "failed",
+  "cancelled",
+  "skipped",
+];
+
+/**
+ * Build a query from `limit`, `status` and `since` parameters, throwing an
+ * Error describing the first invalid one
+ */
+export function parseHistoryQuery(params: URLSearchParams): HistoryQuery {
+  const query: HistoryQuery = {};
+
+  const limit = params.get("limit");
+  if (limit !== null) {
+    if (!/^\d+$/.test(limit)) throw new Error(`invalid limit "${limit}"`);
+    query.limit = Number(limit);
+  }
+
+  const status = params.get("status");
+  if (status !== null) {
+    if (!STATUSES.includes(status as MoveStatus)) {
+      throw new Error(
+        `invalid status "${status}" (expected ${STATUSES.join(", ")})`
+      );
+    }
+    query.status = status as MoveStatus;
+  }
+
+  const since = params.get("since");
+  if (since !== null) {
+    const date = new Date(since);
+    if (isNaN(date.getTime())) throw new Error(`invalid date "${since}"`);
+    query.since = date;
+  }
+
+  return query;
+}
+
+export async function appendHistory(run: MoveRun): Promise<void> {
+  const { output: _output, ...entry } = run;
+  await mkdir(dirname(HISTORY_FILE), { recursive: true });
+  await appendFile(HISTORY_FILE, JSON.stringify(entry) + "\n");
+}
+
+/**
+ * Read the journal, newest first. Lines that cannot be parsed (e.g. a
+ * partial write after a crash) are skipped.
+ */
+export async function readHistory(
+  query: HistoryQuery = {}
+): Promise<HistoryEntry[]> {
+  let contents: string;
+  try {
+    contents = await readFile(HISTORY_FILE, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const entries: HistoryEntry[] = [];
+  for (const line of contents.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as HistoryEntry);
+    } catch {
+      continue;
+    }
+  }
+
+  const since = query.since?.getTime();
+  const matching = entries
+    .filter((entry) => !query.status || entry.status === query.status)
+    .filter(
+      (entry) => since === undefined || Date.parse(entry.startedAt) >= since
+    )
+    .reverse();
+
+  return query.limit === undefined ? matching : matching.slice(0, query.limit);
+}
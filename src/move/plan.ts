@@ -0,0 +1,213 @@
+import { spawn } from "node:child_process";
+import { lstat } from "node:fs/promises";
+import { join } from "node:path";
+import { configToEnv } from "../config/load.js";
+import type { Config } from "../config/schema.js";
+import { MOVE_JOB_SCRIPT } from "../paths.js";
+import { runRclone, withFileList } from "../rclone.js";
+import { getMoveRoutes, type MoveRoute } from "./routes.js";
+import { ROUTE_STARTED_PATTERN } from "./stats.js";
+
+/**
+ * Dry-run move plans. move-job.sh runs with --dry-run, so rclone sees the
+ * same routes, filters and policies as a real move and logs, as JSON, every
+ * file it would move. Sizes come from the local files, and each route's
+ * destination is listed to find the files that would replace a remote
+ * object.
+ */
+
+export type PlannedAction =
+  /** The file would be uploaded */
+  | "upload"
+  /** An identical copy is already on the remote; only the local file goes */
+  | "delete";
+
+export interface PlannedFile {
+  route: string;
+  /** Path relative to LOCAL_PATH */
+  path: string;
+  bytes: number;
+  /** rclone `remote:path` of the file after the move */
+  destination: string;
+  action: PlannedAction;
+  /** Whether an upload would replace an existing remote object */
+  overwrite: boolean;
+}
+
+export interface MovePlan {
+  createdAt: string;
+  files: PlannedFile[];
+  /** Bytes that would be uploaded */
+  totalBytes: number;
+  /** Files that would replace an existing remote object */
+  overwrites: number;
+}
+
+export class MovePlanError extends Error {
+  constructor(message: string, public readonly output: string[]) {
+    super(message);
+    this.name = "MovePlanError";
+  }
+}
+
+interface DryRunEntry {
+  route: MoveRoute;
+  /** Path relative to the route's source directory */
+  path: string;
+  action: PlannedAction;
+}
+
+/** Subset of an rclone JSON log line */
+interface RcloneLogLine {
+  msg?: string;
+  object?: string;
+}
+
+// e.g. "Skipped move as --dry-run is set (size 1.5Mi)"
+const DRY_RUN_PATTERN = /^Skipped (move|copy|update|delete) as --dry-run/;
+
+/**
+ * Run move-job.sh with --dry-run and collect its output
+ */
+function dryRun(config: Config): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(MOVE_JOB_SCRIPT, ["--dry-run"], {
+      env: { ...process.env, ...configToEnv(config) },
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+
+    let output = "";
+    child.stdout.on("data", (chunk: Buffer) => (output += chunk.toString()));
+    child.stderr.on("data", (chunk: Buffer) => (output += chunk.toString()));
+    child.on("error", reject);
+    child.on("close", (code) => {
+      const lines = output.split("\n").filter((line) => line.trim());
+      if (code === 0) {
+        resolve(lines);
+      } else {
+        reject(
+          new MovePlanError(
+            `Move job dry run failed with exit code ${code}`,
+            lines.slice(-20)
+          )
+        );
+      }
+    });
+  });
+}
+
+/**
+ * The files a dry run would move, by route
+ */
+function parseDryRun(lines: string[], routes: MoveRoute[]): DryRunEntry[] {
+  const planned: DryRunEntry[] = [];
+  let route: MoveRoute | undefined;
+
+  for (const line of lines) {
+    const started = line.trim().match(ROUTE_STARTED_PATTERN);
+    if (started) {
+      route = routes.find((route) => route.name === started[1]);
+      continue;
+    }
+    if (!route || !line.trim().startsWith("{")) continue;
+
+    let entry: RcloneLogLine;
+    try {
+      entry = JSON.parse(line) as RcloneLogLine;
+    } catch {
+      continue;
+    }
+    const skipped = entry.msg?.match(DRY_RUN_PATTERN);
+    if (!skipped || !entry.object) continue;
+    planned.push({
+      route,
+      path: entry.object,
+      action: skipped[1] === "delete" ? "delete" : "upload",
+    });
+  }
+
+  return planned;
+}
+
+function remoteJoin(destination: string, path: string): string {
+  return /[:/]$/.test(destination)
+    ? `${destination}${path}`
+    : `${destination}/${path}`;
+}
+
+/**
+ * Which of the given paths already exist under a remote destination
+ */
+async function findExisting(
+  destination: string,
+  paths: string[]
+): Promise<Set<string>> {
+  if (paths.length === 0) return new Set();
+
+  return withFileList(paths, async (listFile) => {
+    const { code, stdout, stderr } = await runRclone([
+      "lsjson",
+      "--files-only",
+      "--no-modtime",
+      "--no-mimetype",
+      "--files-from-raw",
+      listFile,
+      destination,
+    ]);
+    // A destination directory that does not exist yet holds nothing
+    if (code !== 0 && !/directory not found/i.test(stderr)) {
+      throw new Error(`rclone lsjson ${destination} failed: ${stderr.trim()}`);
+    }
+    const objects =
+      code === 0 ? (JSON.parse(stdout) as { Path: string }[]) : [];
+    return new Set(objects.map((object) => object.Path));
+  });
+}
+
+/**
+ * Work out what the next move would do, without moving anything
+ */
+export async function planMove(config: Config): Promise<MovePlan> {
+  const createdAt = new Date().toISOString();
+  const routes = getMoveRoutes(config);
+  const planned = parseDryRun(await dryRun(config), routes);
+
+  const files: PlannedFile[] = [];
+  for (const route of routes) {
+    const entries = planned.filter((entry) => entry.route === route);
+    const existing = await findExisting(
+      route.destination,
+      entries
+        .filter((entry) => entry.action === "upload")
+        .map((entry) => entry.path)
+    );
+
+    for (const entry of entries) {
+      let bytes = 0;
+      try {
+        bytes = (await lstat(join(route.source, entry.path))).size;
+      } catch (error) {
+        // Gone since the dry run, e.g. moved by a real run in the meantime
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") continue;
+        throw error;
+      }
+      files.push({
+        route: route.name,
+        path: route.prefix ? join(route.prefix, entry.path) : entry.path,
+        bytes,
+        destination: remoteJoin(route.destination, entry.path),
+        action: entry.action,
+        overwrite: existing.has(entry.path),
+      });
+    }
+  }
+
+  return {
+    createdAt,
+    files,
+    totalBytes: files
+      .filter((file) => file.action === "upload")
+      .reduce((total, file) => total + file.bytes, 0),
+    overwrites: files.filter((file) => file.overwrite).length,
+  };
+}
@@ -0,0 +1,204 @@
+import { relative } from "node:path";
+import { createFilterMatcher, type FilterRule } from "../filters.js";
+import { getDiskSpace, listPending, type PendingFile } from "../local-usage.js";
+import { findFilesOpenForWriting } from "../open-files.js";
+import type { Logger } from "../log.js";
+import { formatBytes } from "../size.js";
+import { MoveInProgressError, startMove } from "./runner.js";
+
+/**
+ * Starts an early move when the filesystem holding LOCAL_PATH fills past the
+ * high water mark, moving the oldest eligible files until usage is expected
+ * to drop to the low water mark. Complements the mergerfs `minfreespace`
+ * option, which only stops new files from landing on a full branch.
+ *
+ * When free space falls below MOVE_MIN_FREE, writes through mergerfs are
+ * about to fail, so every eligible file is moved and a warning is raised.
+ */
+
+export interface PressureOptions {
+  localPath: string;
+  /** Usage ratio (0-1) that triggers a move; null disables the water marks */
+  highWater: number | null;
+  /** Usage ratio (0-1) the move aims for */
+  lowWater: number | null;
+  /** Free bytes below which every eligible file is moved; null disables */
+  minFree: number | null;
+  /** Time between disk usage checks, in ms */
+  interval: number;
+  /** Files modified more recently than this (ms) are not moved */
+  minAge: number;
+  /** The move job's effective filter rules; excluded files are not picked */
+  filters: FilterRule[];
+  log: Logger;
+  /** Called when free space falls below minFree, once until it recovers */
+  onLowSpace?: (event: LowSpaceEvent) => void;
+}
+
+export interface LowSpaceEvent {
+  path: string;
+  freeBytes: number;
+  minFree: number;
+  /** Files the emergency move was started for; 0 if none were eligible */
+  files: number;
+  bytes: number;
+}
+
+export interface PressureMonitor {
+  stop(): void;
+}
+
+/**
+ * Pick the oldest files that are at least `minAge` old, not excluded by the
+ * filters and not open for writing until their combined size reaches `bytes`
+ */
+function selectFiles(
+  files: PendingFile[],
+  bytes: number,
+  options: PressureOptions,
+  openPaths: Set<string>,
+  now = new Date()
+): PendingFile[] {
+  const cutoff = now.getTime() - options.minAge;
+  const match = createFilterMatcher(options.filters);
+  const eligible = files
+    .filter((file) => file.modifiedAt.getTime() <= cutoff)
+    .filter((file) => match(file.path)?.action !== "exclude")
+    .filter((file) => !openPaths.has(file.path))
+    .sort((a, b) => a.modifiedAt.getTime() - b.modifiedAt.getTime());
+
+  const selected: PendingFile[] = [];
+  let total = 0;
+  for (const file of eligible) {
+    if (total >= bytes) break;
+    selected.push(file);
+    total += file.bytes;
+  }
+  return selected;
+}
+
+/**
+ * Check the disk and start a move if needed. Resolves with whether free
+ * space is below minFree.
+ */
+async function checkPressure(
+  options: PressureOptions,
+  wasLow: boolean
+): Promise<boolean> {
+  const space = await getDiskSpace(options.localPath);
+  if (space.totalBytes === 0) return false;
+
+  const { highWater, lowWater, minFree, log } = options;
+  const used = 1 - space.freeBytes / space.totalBytes;
+  const low = minFree !== null && space.freeBytes < minFree;
+  const high = highWater !== null && used >= highWater;
+  if (!low && !high) return false;
+
+  // Below the minimum, move whatever can go rather than stopping at the low
+  // water mark
+  const toFree = low
+    ? Infinity
+    : Math.ceil((used - (lowWater ?? 0)) * space.totalBytes);
+  const open = await findFilesOpenForWriting(options.localPath);
+  const files = selectFiles(
+    await listPending(options.localPath),
+    toFree,
+    options,
+    new Set(open.map((file) => relative(options.localPath, file.path)))
+  );
+  const bytes = files.reduce((sum, file) => sum + file.bytes, 0);
+  const fields = {
+    usedBytes: space.totalBytes - space.freeBytes,
+    freeBytes: space.freeBytes,
+    totalBytes: space.totalBytes,
+    highWater,
+    lowWater,
+    minFree,
+  };
+  const state = low
+    ? `Local free space down to ${formatBytes(space.freeBytes)}, ` +
+      `below ${formatBytes(minFree ?? 0)}`
+    : `Local usage at ${Math.round(used * 100)}%`;
+
+  if (low && !wasLow) {
+    log.warn(
+      `${state}; writes to the merged view fail once the mergerfs ` +
+        "minfreespace is reached",
+      fields
+    );
+    options.onLowSpace?.({
+      path: options.localPath,
+      freeBytes: space.freeBytes,
+      minFree: minFree ?? 0,
+      files: files.length,
+      bytes,
+    });
+  }
+
+  if (files.length === 0) {
+    log.info(`${state}, but no files are eligible`, fields);
+    return low;
+  }
+
+  log.info(
+    low
+      ? `${state}, moving all ${files.length} eligible files ` +
+          `(${formatBytes(bytes)})`
+      : `${state}, moving ${files.length} files (${formatBytes(bytes)}) ` +
+          `to free ${formatBytes(toFree)}`,
+    { ...fields, files: files.length, bytes }
+  );
+  try {
+    const { run, done } = await startMove("pressure", {
+      log,
+      files: files.map((file) => file.path),
+    });
+    log.info(`Started pressure move ${run.id}`, { id: run.id });
+    const result = await done;
+    log.info(`Pressure move ${result.id} finished: ${result.status}`, {
+      id: result.id,
+      status: result.status,
+    });
+  } catch (error) {
+    if (error instanceof MoveInProgressError) {
+      log.info(`Skipping pressure move: ${error.message}`, {
+        id: error.run?.id ?? null,
+      });
+      return low;
+    }
+    throw error;
+  }
+  return low;
+}
+
+export function startPressureMonitor(
+  options: PressureOptions
+): PressureMonitor {
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = false;
+  // Whether free space was below minFree at the last check, so a warning is
+  // raised once each time it falls below
+  let low = false;
+
+  // Wait for each check (and any move it starts) before scheduling the next
+  const scheduleNext = () => {
+    if (stopped) return;
+    timer = setTimeout(() => {
+      checkPressure(options, low)
+        .then((result) => {
+          low = result;
+        })
+        .catch((error) => options.log.error("Pressure check failed", { error }))
+        .finally(scheduleNext);
+    }, options.interval);
+  };
+
+  scheduleNext();
+
+  return {
+    stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
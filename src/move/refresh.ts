@@ -0,0 +1,181 @@
+import { dirname } from "node:path";
+import type { Config } from "../config/schema.js";
+import type { Logger } from "../log.js";
+import { vfsRefresh } from "../rc.js";
+import { getRemoteMounts, type RemoteMount } from "../remotes.js";
+import { getMoveRoutes } from "./routes.js";
+import { ROUTE_STARTED_PATTERN, TRANSFERRED_PATTERN } from "./stats.js";
+
+/**
+ * Refresh of the mounts after a move. rclone caches directory listings for
+ * --dir-cache-time, so uploaded files may not show up in the mount (and in
+ * MERGED_PATH) until the cache expires. Instead, the directories each route
+ * wrote to are re-read through the remote control API of the mount showing
+ * its destination.
+ */
+
+export interface TouchedCollector {
+  /** Feed one line of move job output */
+  add(line: string): void;
+  /**
+   * Directories files were uploaded to, relative to the route destination,
+   * by route name
+   */
+  result(): Map<string, Set<string>>;
+}
+
+/** Subset of an rclone JSON log line */
+interface RcloneLogLine {
+  msg?: string;
+  object?: string;
+}
+
+export function createTouchedCollector(): TouchedCollector {
+  const touched = new Map<string, Set<string>>();
+  let route: Set<string> | null = null;
+
+  return {
+    add(line) {
+      const trimmed = line.trim();
+      const started = trimmed.match(ROUTE_STARTED_PATTERN);
+      if (started) {
+        const name = started[1] as string;
+        route = touched.get(name) ?? new Set();
+        touched.set(name, route);
+        return;
+      }
+      if (!route || !trimmed.startsWith("{")) return;
+
+      let entry: RcloneLogLine;
+      try {
+        entry = JSON.parse(trimmed) as RcloneLogLine;
+      } catch {
+        return;
+      }
+      if (entry.object && TRANSFERRED_PATTERN.test(entry.msg?.trim() ?? "")) {
+        const dir = dirname(entry.object);
+        route.add(dir === "." ? "" : dir);
+      }
+    },
+
+    result() {
+      return touched;
+    },
+  };
+}
+
+function trimSlashes(path: string): string {
+  return path.replace(/^\/+|\/+$/g, "");
+}
+
+/**
+ * The mount showing an rclone `remote:path` destination, and the path of
+ * the destination inside it. The mount of the closest parent path wins.
+ */
+function findMount(
+  mounts: RemoteMount[],
+  destination: string
+): { mount: RemoteMount; path: string } | null {
+  const separator = destination.indexOf(":");
+  const remote = destination.slice(0, separator);
+  const path = trimSlashes(destination.slice(separator + 1));
+
+  let found: { mount: RemoteMount; path: string } | null = null;
+  let longest = -1;
+  for (const mount of mounts) {
+    const root = trimSlashes(mount.remotePath);
+    if (mount.remote !== remote || root.length <= longest) continue;
+    if (root === "" || path === root) {
+      found = { mount, path: path.slice(root.length) };
+    } else if (path.startsWith(`${root}/`)) {
+      found = { mount, path: path.slice(root.length + 1) };
+    } else {
+      continue;
+    }
+    longest = root.length;
+  }
+  return found;
+}
+
+/**
+ * Every directory from the root of the mount down to `dir`, since a new
+ * directory only shows up once its parent is re-read
+ */
+function withParents(dir: string): string[] {
+  const parts = dir.split("/").filter(Boolean);
+  return parts.map((_, i) => parts.slice(0, i + 1).join("/")).concat("");
+}
+
+async function refreshMount(
+  mount: RemoteMount,
+  dirs: Set<string>,
+  log: Logger
+): Promise<void> {
+  // Parents first, one depth at a time, so new subdirectories are found
+  const depths: string[][] = [];
+  for (const dir of dirs) {
+    const depth = dir === "" ? 0 : dir.split("/").length;
+    (depths[depth] ??= []).push(dir);
+  }
+
+  let refreshed = 0;
+  for (const level of depths) {
+    if (!level) continue;
+    // No directories refreshes the root
+    const result = await vfsRefresh(
+      mount.rcSocket,
+      level.filter((dir) => dir !== "")
+    );
+    for (const [dir, outcome] of Object.entries(result)) {
+      if (outcome === "OK") refreshed++;
+      else
+        log.warn(`Failed to refresh ${mount.program} ${dir}`, {
+          program: mount.program,
+          dir,
+          error: outcome,
+        });
+    }
+  }
+  log.info(`Refreshed ${refreshed} directories of ${mount.program}`, {
+    program: mount.program,
+    refreshed,
+  });
+}
+
+/**
+ * Re-read the directories a move wrote to in every mount that shows them.
+ * Never rejects; a mount that cannot be refreshed catches up once its
+ * directory cache expires.
+ */
+export async function refreshMovedDirectories(
+  config: Config,
+  touched: Map<string, Set<string>>,
+  log: Logger
+): Promise<void> {
+  const mounts = getRemoteMounts(config);
+  const byMount = new Map<RemoteMount, Set<string>>();
+
+  for (const route of getMoveRoutes(config)) {
+    const dirs = touched.get(route.name);
+    const target = findMount(mounts, route.destination);
+    if (!dirs || dirs.size === 0 || !target) continue;
+
+    const mountDirs = byMount.get(target.mount) ?? new Set();
+    byMount.set(target.mount, mountDirs);
+    for (const dir of dirs) {
+      const path = [target.path, dir].filter(Boolean).join("/");
+      for (const parent of withParents(path)) mountDirs.add(parent);
+    }
+  }
+
+  await Promise.all(
+    [...byMount].map(([mount, dirs]) =>
+      refreshMount(mount, dirs, log).catch((error) =>
+        log.warn(`Failed to refresh ${mount.program}`, {
+          program: mount.program,
+          error,
+        })
+      )
+    )
+  );
+}
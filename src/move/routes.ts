@@ -0,0 +1,142 @@
+import { join } from "node:path";
+import type { Config } from "../config/schema.js";
+import {
+  effectiveFilters,
+  escapeGlob,
+  formatFilterRule,
+  rebaseFilterRule,
+  type FilterRule,
+} from "../filters.js";
+import { getUploadRemote } from "../remotes.js";
+
+/**
+ * Routing of uploads: each MOVE_ROUTES entry moves the contents of a
+ * subdirectory of LOCAL_PATH to its own destination, and the default route
+ * moves everything else to the upload remote. A file belongs to the route
+ * with the longest matching prefix, so routes may be nested.
+ */
+
+export interface MoveRoute {
+  /** The prefix, or "default" for the default route */
+  name: string;
+  /** Subdirectory of LOCAL_PATH; null for the default route */
+  prefix: string | null;
+  /** Absolute local directory the route moves from */
+  source: string;
+  /** rclone `remote:path` the route moves to */
+  destination: string;
+}
+
+export const DEFAULT_ROUTE = "default";
+
+/**
+ * Every route, configured ones first in order, the default route last
+ */
+export function getMoveRoutes(config: Config): MoveRoute[] {
+  const upload = getUploadRemote(config);
+  return [
+    ...config.move.routes.map((route) => ({
+      name: route.prefix,
+      prefix: route.prefix,
+      source: join(config.localPath, route.prefix),
+      destination: `${route.remote}:${route.remotePath}`,
+    })),
+    {
+      name: DEFAULT_ROUTE,
+      prefix: null,
+      source: config.localPath,
+      destination: `${upload.remote}:${upload.remotePath}`,
+    },
+  ];
+}
+
+function isUnder(path: string, prefix: string): boolean {
+  return path === prefix || path.startsWith(`${prefix}/`);
+}
+
+/**
+ * Find the route a path relative to LOCAL_PATH is moved by
+ */
+export function findRoute(routes: MoveRoute[], path: string): MoveRoute {
+  const matching = routes
+    .filter((route) => route.prefix === null || isUnder(path, route.prefix))
+    .sort((a, b) => (b.prefix?.length ?? -1) - (a.prefix?.length ?? -1));
+  return matching[0] as MoveRoute;
+}
+
+/**
+ * Path relative to the route's source directory
+ */
+function relativeToRoute(route: MoveRoute, path: string): string {
+  return route.prefix === null ? path : path.slice(route.prefix.length + 1);
+}
+
+/**
+ * Those of the paths relative to LOCAL_PATH that the route moves, relative
+ * to the route's source directory
+ */
+function ownedPaths(
+  routes: MoveRoute[],
+  route: MoveRoute,
+  paths: string[]
+): string[] {
+  return paths
+    .filter((path) => findRoute(routes, path).name === route.name)
+    .map((path) => relativeToRoute(route, path));
+}
+
+/**
+ * The rclone --filter-from rules for one route. Directories belonging to
+ * nested routes are excluded, then the deferred files (paths relative to
+ * LOCAL_PATH), then MOVE_FILTERS applies. rclone matches the rules against
+ * paths relative to the route's source directory, so anchored MOVE_FILTERS
+ * rules, which mean a path under LOCAL_PATH, are rewritten for it.
+ */
+export function buildRouteFilters(
+  config: Config,
+  route: MoveRoute,
+  deferred: string[]
+): string[] {
+  const routes = getMoveRoutes(config);
+  const rules: FilterRule[] = [];
+  const exclude = (path: string, suffix = "") =>
+    rules.push({ action: "exclude", pattern: `/${escapeGlob(path)}${suffix}` });
+
+  for (const other of routes) {
+    if (other.name === route.name || other.prefix === null) continue;
+    if (route.prefix === null || isUnder(other.prefix, route.prefix)) {
+      exclude(relativeToRoute(route, other.prefix), "/**");
+    }
+  }
+
+  ownedPaths(routes, route, deferred).forEach((path) => exclude(path));
+  const { prefix } = route;
+  const filters = effectiveFilters(config.move.filters);
+  rules.push(
+    ...(prefix === null
+      ? filters
+      : filters.flatMap((rule) => rebaseFilterRule(rule, prefix) ?? []))
+  );
+
+  return rules.map(formatFilterRule);
+}
+
+/**
+ * The rclone --files-from-raw list for one route, when the move was started
+ * for a list of paths relative to LOCAL_PATH: the listed files the route
+ * moves, less the deferred ones, relative to the route's source directory.
+ * rclone then looks up each file rather than walking the whole source.
+ */
+export function buildRouteFiles(
+  config: Config,
+  route: MoveRoute,
+  files: string[],
+  deferred: string[]
+): string[] {
+  const skip = new Set(deferred);
+  return ownedPaths(
+    getMoveRoutes(config),
+    route,
+    files.filter((path) => !skip.has(path))
+  );
+}
@@ -0,0 +1,423 @@
+import { execFile, spawn } from "node:child_process";
+import { mkdir, open, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { StringDecoder } from "node:string_decoder";
+import { configToEnv, getResolvedConfig } from "../config/load.js";
+import type { Config } from "../config/schema.js";
+import type { Logger } from "../log.js";
+import {
+  MOVE_JOB_SCRIPT,
+  MOVE_LOCK,
+  MOVE_LOG,
+  MOVE_START_CLAIM,
+  STATE_DIR,
+} from "../paths.js";
+import { formatBytes } from "../size.js";
+import { notifyWebhooks } from "../webhooks.js";
+import { appendHistory } from "./history.js";
+import { createTouchedCollector, refreshMovedDirectories } from "./refresh.js";
+import {
+  createRouteCollector,
+  createStatsCollector,
+  sumStats,
+  type MoveStats,
+  type RouteResult,
+} from "./stats.js";
+
+/**
+ * Runs /scripts/move-job.sh and records the outcome of the most recent run
+ * in a state file, so that runs started by the scheduler and by the API are
+ * visible to every service in the container.
+ */
+
+export type MoveTrigger =
+  | "api"
+  | "schedule"
+  | "manual"
+  /** LOCAL_PATH usage crossed MOVE_HIGH_WATER, or free space MOVE_MIN_FREE */
+  | "pressure"
+  /** Files in LOCAL_PATH settled after changing, with MOVE_WATCH */
+  | "watch";
+export type MoveStatus =
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "cancelled"
+  /** Another move held the lock, or the container was shutting down */
+  | "skipped";
+
+export interface MoveRun {
+  id: string;
+  trigger: MoveTrigger;
+  status: MoveStatus;
+  pid: number | null;
+  startedAt: string;
+  finishedAt: string | null;
+  exitCode: number | null;
+  signal: string | null;
+  /** Transfer statistics parsed from the rclone output, once finished */
+  stats: MoveStats | null;
+  /** Outcome of each route the job reached, once finished */
+  routes: RouteResult[];
+  /** Last lines written by the move job */
+  output: string[];
+}
+
+export interface StartedMove {
+  run: MoveRun;
+  /** Resolves with the final state once the move job exits */
+  done: Promise<MoveRun>;
+}
+
+export interface StartMoveOptions {
+  /** Logger of the service starting the move */
+  log: Logger;
+  /** Also copy the job output to this process's stdout/stderr */
+  echo?: boolean;
+  /**
+   * Move only these files, relative to LOCAL_PATH. The order is up to
+   * rclone, unless MOVE_ORDER sets one.
+   */
+  files?: string[];
+}
+
+export class MoveInProgressError extends Error {
+  /** The active run, or null if the lock is held by an untracked process */
+  constructor(public readonly run: MoveRun | null) {
+    super(
+      run
+        ? `Move job ${run.id} is already running (pid ${run.pid})`
+        : "A move job is already running"
+    );
+    this.name = "MoveInProgressError";
+  }
+}
+
+const STATE_FILE = join(STATE_DIR, "move-job.json");
+const OUTPUT_LINES = 20;
+
+/** How often the job's new output is read back from MOVE_LOG */
+const TAIL_INTERVAL = 1_000;
+
+/** Exit code move-job.sh uses when another move holds the lock */
+const LOCKED_EXIT_CODE = 75;
+
+/**
+ * Exit code move-job.sh uses when it stops early because the container is
+ * shutting down, as if it had been terminated by SIGTERM
+ */
+const STOPPED_EXIT_CODE = 143;
+
+/**
+ * Check whether another process holds the move lock, e.g. a move started
+ * with `docker exec neomount /scripts/move-job.sh`
+ */
+export function isLockHeld(): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    execFile("flock", ["--nonblock", MOVE_LOCK, "true"], (error) => {
+      if (!error) resolve(false);
+      else if (error.code === 1) resolve(true);
+      else reject(new Error(`Failed to check move lock: ${error.message}`));
+    });
+  });
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+async function writeState(run: MoveRun): Promise<void> {
+  await mkdir(dirname(STATE_FILE), { recursive: true });
+  const temp = `${STATE_FILE}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(run, null, 2) + "\n");
+  await rename(temp, STATE_FILE);
+}
+
+/**
+ * Record a run that found the move lock held. The state file is left alone
+ * unless it still holds this run, since it may describe the move holding
+ * the lock by now.
+ */
+async function recordSkipped(run: MoveRun): Promise<void> {
+  const current = await getLastRun();
+  if (current?.id === run.id) await writeState(run);
+}
+
+/**
+ * Claim the start of a move until its run is in the state file, so that the
+ * scheduler and the API cannot both pass the checks in startMove before
+ * either has recorded its run. Returns the function releasing the claim. A
+ * claim left behind by a process that no longer exists is taken over.
+ */
+async function claimStart(): Promise<() => Promise<void>> {
+  await mkdir(dirname(MOVE_START_CLAIM), { recursive: true });
+  for (;;) {
+    try {
+      await writeFile(MOVE_START_CLAIM, `${process.pid}\n`, { flag: "wx" });
+      return () => rm(MOVE_START_CLAIM, { force: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+    // Empty while the holder is still writing its pid
+    const holder = Number(
+      await readFile(MOVE_START_CLAIM, "utf8").catch(() => "")
+    );
+    if (!holder || isProcessAlive(holder)) throw new MoveInProgressError(null);
+    await rm(MOVE_START_CLAIM, { force: true });
+  }
+}
+
+/**
+ * Send the move.finished or move.failed webhook for a finished run
+ */
+function notifyFinished(config: Config, run: MoveRun, log: Logger) {
+  const stats = run.stats
+    ? `: ${run.stats.files} files, ${formatBytes(run.stats.bytes)}`
+    : "";
+  const data = {
+    id: run.id,
+    trigger: run.trigger,
+    status: run.status,
+    exitCode: run.exitCode,
+    files: run.stats?.files ?? 0,
+    bytes: run.stats?.bytes ?? 0,
+    lastError: run.stats?.lastError ?? null,
+  };
+
+  if (run.status === "failed") {
+    return notifyWebhooks(
+      config,
+      log,
+      "move.failed",
+      `Move ${run.id} failed with exit code ${run.exitCode}${stats}` +
+        (run.stats?.lastError ? `\nLast error: ${run.stats.lastError}` : ""),
+      data
+    );
+  }
+  return notifyWebhooks(
+    config,
+    log,
+    "move.finished",
+    `Move ${run.id} ${run.status}${stats}`,
+    data
+  );
+}
+
+/**
+ * Read the most recent move run, or null if no move has run yet. A run left
+ * in the running state by a process that no longer exists is reported as
+ * failed.
+ */
+export async function getLastRun(): Promise<MoveRun | null> {
+  let run: MoveRun;
+  try {
+    run = JSON.parse(await readFile(STATE_FILE, "utf8")) as MoveRun;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+
+  if (run.status === "running" && (!run.pid || !isProcessAlive(run.pid))) {
+    return { ...run, status: "failed" };
+  }
+  return run;
+}
+
+/**
+ * Start the move job. Throws MoveInProgressError if a run is still active.
+ */
+export async function startMove(
+  trigger: MoveTrigger,
+  options: StartMoveOptions
+): Promise<StartedMove> {
+  const release = await claimStart();
+  try {
+    return await launchMove(trigger, options);
+  } finally {
+    await release();
+  }
+}
+
+async function launchMove(
+  trigger: MoveTrigger,
+  options: StartMoveOptions
+): Promise<StartedMove> {
+  const { log } = options;
+  const last = await getLastRun();
+  if (last?.status === "running") {
+    throw new MoveInProgressError(last);
+  }
+  await mkdir(dirname(MOVE_LOCK), { recursive: true });
+  if (await isLockHeld()) {
+    throw new MoveInProgressError(null);
+  }
+
+  // Pass the resolved configuration explicitly so the script sees the same
+  // values as this process regardless of how it was started
+  const config = await getResolvedConfig();
+  const startedAt = new Date();
+  const id = startedAt.toISOString().replace(/[:.]/g, "-");
+  const env: NodeJS.ProcessEnv = { ...process.env, ...configToEnv(config) };
+
+  // The script splits the list by route (filters.js --files-from) and hands
+  // each part to rclone --files-from-raw
+  let filesFrom: string | null = null;
+  if (options.files) {
+    filesFrom = join(dirname(MOVE_LOCK), `move-files-${id}.txt`);
+    await writeFile(filesFrom, options.files.join("\n") + "\n");
+    env.MOVE_FILES_FROM = filesFrom;
+  }
+
+  // The job appends both output streams to MOVE_LOG itself rather than
+  // through pipes, so it keeps running if this process exits or restarts.
+  // Its output is read back from there.
+  const output = await open(MOVE_LOG, "a");
+  let offset = (await output.stat()).size;
+  // Run in its own process group so a cancel reaches rclone as well as bash
+  const child = spawn(MOVE_JOB_SCRIPT, [], {
+    detached: true,
+    env,
+    stdio: ["ignore", output.fd, output.fd],
+  });
+  await output.close();
+
+  const run: MoveRun = {
+    id,
+    trigger,
+    status: "running",
+    pid: child.pid ?? null,
+    startedAt: startedAt.toISOString(),
+    finishedAt: null,
+    exitCode: null,
+    signal: null,
+    stats: null,
+    routes: [],
+    output: [],
+  };
+
+  const collector = createStatsCollector();
+  const routes = createRouteCollector();
+  const touched = createTouchedCollector();
+  const recordLine = (line: string) => {
+    if (!line.trim()) return;
+    collector.add(line);
+    routes.add(line);
+    touched.add(line);
+    run.output = [...run.output, line].slice(-OUTPUT_LINES);
+  };
+
+  // Reads can end mid-line, so keep the remainder until the next one
+  const decoder = new StringDecoder("utf8");
+  let pending = "";
+  const readOutput = async () => {
+    const handle = await open(MOVE_LOG, "r");
+    try {
+      const { size } = await handle.stat();
+      if (size <= offset) return;
+      const buffer = Buffer.alloc(size - offset);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, offset);
+      offset += bytesRead;
+      const chunk = buffer.subarray(0, bytesRead);
+      if (options.echo) process.stdout.write(chunk);
+      const lines = (pending + decoder.write(chunk)).split("\n");
+      pending = lines.pop() ?? "";
+      lines.forEach(recordLine);
+    } finally {
+      await handle.close();
+    }
+  };
+
+  // One read at a time, in order
+  let reading = Promise.resolve();
+  const readNext = () => {
+    reading = reading
+      .then(readOutput)
+      .catch((error) => log.error(`Failed to read ${MOVE_LOG}`, { id, error }));
+  };
+  const tail = setInterval(readNext, TAIL_INTERVAL);
+
+  const done = new Promise<MoveRun>((resolve) => {
+    // A failed spawn can emit both error and close; record the run once
+    let finished = false;
+    const finish = async (exitCode: number | null, signal: string | null) => {
+      if (finished) return;
+      finished = true;
+      // Pick up whatever the job wrote after the last read
+      clearInterval(tail);
+      readNext();
+      await reading;
+      recordLine(pending + decoder.end());
+      run.finishedAt = new Date().toISOString();
+      run.exitCode = exitCode;
+      run.signal = signal;
+      run.status =
+        signal === "SIGTERM" ||
+        signal === "SIGINT" ||
+        exitCode === STOPPED_EXIT_CODE
+          ? "cancelled"
+          : exitCode === LOCKED_EXIT_CODE
+          ? "skipped"
+          : exitCode === 0
+          ? "succeeded"
+          : "failed";
+      run.routes = routes.result(
+        run.status === "cancelled" ? "cancelled" : "failed"
+      );
+      // Each route's rclone run reports its own totals, so add them up
+      const routeStats = run.routes.flatMap((route) =>
+        route.stats ? [route.stats] : []
+      );
+      run.stats =
+        routeStats.length > 0 ? sumStats(routeStats) : collector.result();
+      // Retries to an unreachable webhook must not hold up the run
+      void notifyFinished(config, run, log);
+      try {
+        await Promise.all([
+          run.status === "skipped" ? recordSkipped(run) : writeState(run),
+          appendHistory(run),
+          filesFrom && rm(filesFrom, { force: true }),
+          // Show the uploaded files in the mounts before the run counts as done
+          refreshMovedDirectories(config, touched.result(), log),
+        ]);
+      } catch (error) {
+        log.error("Failed to record move result", { id, error });
+      }
+      resolve(run);
+    };
+
+    child.on("error", (error) => {
+      run.output = [...run.output, error.message].slice(-OUTPUT_LINES);
+      void finish(null, null);
+    });
+    child.on("close", (exitCode, signal) => void finish(exitCode, signal));
+  });
+
+  await writeState(run);
+  void notifyWebhooks(config, log, "move.started", `Move ${id} started`, {
+    id,
+    trigger,
+  });
+  return { run, done };
+}
+
+/**
+ * Cancel the active move run. Returns the run that was signalled, or null if
+ * no move is running.
+ */
+export async function cancelMove(): Promise<MoveRun | null> {
+  const last = await getLastRun();
+  if (last?.status !== "running" || !last.pid) return null;
+
+  try {
+    process.kill(-last.pid, "SIGTERM");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ESRCH") throw error;
+    return null;
+  }
+  return last;
+}
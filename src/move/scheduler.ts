@@ -0,0 +1,92 @@
+import { nextFireTime, parseCron } from "../cron.js";
+import { formatDuration } from "../duration.js";
+import type { Logger } from "../log.js";
+import { MoveInProgressError, startMove } from "./runner.js";
+
+/**
+ * Runs the move job on MOVE_SCHEDULE. Overlapping runs are prevented by the
+ * move lock: a fire time that arrives while a move is still running is
+ * skipped rather than queued.
+ */
+
+export interface SchedulerOptions {
+  schedule: string;
+  /** Maximum random delay added to each fire time, in milliseconds */
+  jitter: number;
+  log: Logger;
+}
+
+export interface Scheduler {
+  stop(): void;
+}
+
+/** setTimeout cannot wait longer than 2^31-1 ms, so long waits are chunked */
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+async function runScheduledMove(log: Logger): Promise<void> {
+  try {
+    const { run, done } = await startMove("schedule", { log });
+    log.info(`Started scheduled move ${run.id}`, { id: run.id });
+    const result = await done;
+    log.info(`Scheduled move ${result.id} finished: ${result.status}`, {
+      id: result.id,
+      status: result.status,
+    });
+  } catch (error) {
+    if (error instanceof MoveInProgressError) {
+      log.info(`Skipping scheduled move: ${error.message}`, {
+        id: error.run?.id ?? null,
+      });
+      return;
+    }
+    log.error("Scheduled move failed to start", { error });
+  }
+}
+
+export function startScheduler(options: SchedulerOptions): Scheduler {
+  const { log } = options;
+  const cron = parseCron(options.schedule);
+  let timer: NodeJS.Timeout | null = null;
+
+  const waitUntil = (time: Date, callback: () => void) => {
+    const remaining = time.getTime() - Date.now();
+    timer =
+      remaining > MAX_TIMEOUT
+        ? setTimeout(() => waitUntil(time, callback), MAX_TIMEOUT)
+        : setTimeout(callback, Math.max(0, remaining));
+  };
+
+  // Each fire time follows the previous one rather than the moment its
+  // jittered run started, so jitter longer than the gap skips none
+  const scheduleNext = (after: Date) => {
+    const fireTime = nextFireTime(cron, after);
+    if (!fireTime) {
+      log.error(`Schedule "${options.schedule}" has no future fire times`, {
+        schedule: options.schedule,
+      });
+      return;
+    }
+
+    const jitter = Math.floor(Math.random() * options.jitter);
+    const runAt = new Date(fireTime.getTime() + jitter);
+    log.info(
+      `Next move at ${runAt.toISOString()}` +
+        (jitter ? ` (${formatDuration(jitter)} jitter)` : ""),
+      { at: runAt.toISOString(), jitter }
+    );
+
+    waitUntil(runAt, () => {
+      scheduleNext(fireTime);
+      void runScheduledMove(log);
+    });
+  };
+
+  scheduleNext(new Date());
+
+  return {
+    stop() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * Extraction of transfer statistics from `rclone move` output. The move job
+ * runs rclone with --use-json-log, so most lines are JSON objects; the plain
+ * --stats-one-line format is also understood for runs without JSON logging.
+ */
+
+export interface MoveStats {
+  /** Files transferred */
+  files: number;
+  bytes: number;
+  errors: number;
+  /** Extra attempts made after a failed first pass (--retries) */
+  retries: number;
+  lastError: string | null;
+}
+
+/** Subset of the `stats` object rclone attaches to JSON log lines */
+interface RcloneStats {
+  bytes?: number;
+  errors?: number;
+  transfers?: number;
+  lastError?: string;
+}
+
+interface RcloneLogLine {
+  level?: string;
+  msg?: string;
+  object?: string;
+  stats?: RcloneStats;
+}
+
+const RETRY_PATTERN = /^Attempt \d+\/\d+ failed/;
+export const TRANSFERRED_PATTERN = /^(Copied \(|Moved \()/;
+// e.g. "2024/01/01 02:00:30 INFO  : <message>"
+const TEXT_LINE_PATTERN = /^\d{4}\/\d\d\/\d\d \d\d:\d\d:\d\d (\w+)\s*:\s+(.*)$/;
+// e.g. "1.500 GiB / 2 GiB, 75%, 10 MiB/s, ETA 51s"
+const ONE_LINE_PATTERN = /^([\d.]+) ?([KMGTP]i)?B \/ [\d.]+ ?[KMGTP]?i?B, \d+%/;
+
+const UNITS: Record<string, number> = {
+  Ki: 1024,
+  Mi: 1024 ** 2,
+  Gi: 1024 ** 3,
+  Ti: 1024 ** 4,
+  Pi: 1024 ** 5,
+};
+
+export interface StatsCollector {
+  /** Feed one line of rclone output */
+  add(line: string): void;
+  result(): MoveStats;
+}
+
+export function createStatsCollector(): StatsCollector {
+  const stats: MoveStats = {
+    files: 0,
+    bytes: 0,
+    errors: 0,
+    retries: 0,
+    lastError: null,
+  };
+  // Counts from individual log lines, used when rclone never printed a JSON
+  // stats block (e.g. text logging, or a failure before the first interval)
+  let loggedFiles = 0;
+  let loggedErrors = 0;
+  let sawJsonStats = false;
+
+  const addMessage = (level: string, message: string, object?: string) => {
+    if (RETRY_PATTERN.test(message)) {
+      // Summary of a failed pass, not an error of its own
+      stats.retries++;
+      return;
+    }
+    if (TRANSFERRED_PATTERN.test(message)) loggedFiles++;
+    if (level === "error") {
+      loggedErrors++;
+      stats.lastError = object ? `${object}: ${message}` : message;
+    }
+  };
+
+  const addJson = (entry: RcloneLogLine) => {
+    addMessage(entry.level ?? "", entry.msg?.trim() ?? "", entry.object);
+
+    // Every stats line carries cumulative totals, so the last one wins
+    if (entry.stats) {
+      sawJsonStats = true;
+      stats.files = entry.stats.transfers ?? stats.files;
+      stats.bytes = entry.stats.bytes ?? stats.bytes;
+      stats.errors = entry.stats.errors ?? stats.errors;
+      if (entry.stats.lastError) stats.lastError = entry.stats.lastError;
+    }
+  };
+
+  const addText = (line: string) => {
+    const match = line.match(TEXT_LINE_PATTERN);
+    if (!match) return;
+    const [, level = "", rest = ""] = match;
+
+    // Per-object messages look like "<object>: <message>"
+    const separator = RETRY_PATTERN.test(rest) ? -1 : rest.indexOf(": ");
+    const message = separator === -1 ? rest : rest.slice(separator + 2);
+    const object = separator === -1 ? undefined : rest.slice(0, separator);
+    addMessage(level.toLowerCase(), message, object);
+
+    const oneLine = rest.match(ONE_LINE_PATTERN);
+    if (oneLine && !sawJsonStats) {
+      const unit = oneLine[2] ? UNITS[oneLine[2]] ?? 1 : 1;
+      stats.bytes = Math.round(Number(oneLine[1]) * unit);
+    }
+  };
+
+  return {
+    add(line) {
+      const trimmed = line.trim();
+      if (!trimmed) return;
+
+      if (trimmed.startsWith("{")) {
+        try {
+          addJson(JSON.parse(trimmed) as RcloneLogLine);
+          return;
+        } catch {
+          // Not JSON after all; fall through to the text parser
+        }
+      }
+      addText(trimmed);
+    },
+
+    result() {
+      if (sawJsonStats) return { ...stats };
+      return { ...stats, files: loggedFiles, errors: loggedErrors };
+    },
+  };
+}
+
+/**
+ * Combine the statistics of several rclone runs, e.g. one per route
+ */
+export function sumStats(all: MoveStats[]): MoveStats {
+  return all.reduce<MoveStats>(
+    (total, stats) => ({
+      files: total.files + stats.files,
+      bytes: total.bytes + stats.bytes,
+      errors: total.errors + stats.errors,
+      retries: total.retries + stats.retries,
+      lastError: stats.lastError ?? total.lastError,
+    }),
+    { files: 0, bytes: 0, errors: 0, retries: 0, lastError: null }
+  );
+}
+
+export type RouteStatus = "succeeded" | "failed" | "cancelled" | "skipped";
+
+/** Outcome of the verification phase of a route (MOVE_VERIFY) */
+export interface RouteVerification {
+  verified: number;
+  reuploaded: number;
+  quarantined: number;
+}
+
+export interface RouteResult {
+  /** Route prefix, or "default" */
+  name: string;
+  status: RouteStatus;
+  exitCode: number | null;
+  stats: MoveStats | null;
+  /** Null unless the route's files were verified */
+  verification: RouteVerification | null;
+}
+
+export interface RouteCollector {
+  /** Feed one line of move job output */
+  add(line: string): void;
+  /**
+   * Results of every route the job reached. A route still running when the
+   * job ended gets `unfinished` as its status.
+   */
+  result(unfinished: RouteStatus): RouteResult[];
+}
+
+// Written by move-job.sh around each route's rclone run
+export const ROUTE_STARTED_PATTERN = /^Route "(.*)" started/;
+const ROUTE_FINISHED_PATTERN = /^Route "(.*)" finished: exit code (\d+)$/;
+const ROUTE_SKIPPED_PATTERN = /^Route "(.*)" skipped/;
+const ROUTE_VERIFIED_PATTERN =
+  /^Route "(.*)" verified: (\d+) ok, (\d+) re-uploaded, (\d+) quarantined$/;
+
+/**
+ * Split the move job output into per-route results, with separate transfer
+ * statistics for each route's rclone run
+ */
+export function createRouteCollector(): RouteCollector {
+  const results: RouteResult[] = [];
+  let current: { result: RouteResult; stats: StatsCollector } | null = null;
+
+  const finish = (status: RouteStatus, exitCode: number | null) => {
+    if (!current) return;
+    current.result.status = status;
+    current.result.exitCode = exitCode;
+    current.result.stats = current.stats.result();
+    current = null;
+  };
+
+  return {
+    add(line) {
+      const trimmed = line.trim();
+      const started = trimmed.match(ROUTE_STARTED_PATTERN);
+      const finished = trimmed.match(ROUTE_FINISHED_PATTERN);
+      const skipped = trimmed.match(ROUTE_SKIPPED_PATTERN);
+      const verified = trimmed.match(ROUTE_VERIFIED_PATTERN);
+
+      if (started) {
+        const result: RouteResult = {
+          name: started[1] as string,
+          status: "failed",
+          exitCode: null,
+          stats: null,
+          verification: null,
+        };
+        results.push(result);
+        current = { result, stats: createStatsCollector() };
+      } else if (finished) {
+        const exitCode = Number(finished[2]);
+        finish(exitCode === 0 ? "succeeded" : "failed", exitCode);
+      } else if (verified && current) {
+        current.result.verification = {
+          verified: Number(verified[2]),
+          reuploaded: Number(verified[3]),
+          quarantined: Number(verified[4]),
+        };
+      } else if (skipped) {
+        results.push({
+          name: skipped[1] as string,
+          status: "skipped",
+          exitCode: null,
+          stats: null,
+          verification: null,
+        });
+      } else {
+        current?.stats.add(line);
+      }
+    },
+
+    result(unfinished) {
+      finish(unfinished, null);
+      return results.map((result) => ({ ...result }));
+    },
+  };
+}
@@ -0,0 +1,302 @@
+import { mkdir, readFile, rename, rm, rmdir, unlink } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { runRclone, withFileList } from "../rclone.js";
+
+/**
+ * Verification phase of the move job (MOVE_VERIFY). Instead of `rclone
+ * move`, move-job.sh copies a route's files and hands the list to this
+ * module, which compares each file with its remote copy using `rclone check`
+ * (size, plus hash where both sides support a common one). Matching files
+ * are deleted locally. Mismatches are uploaded once more and checked again;
+ * files that still differ or are still missing are moved to a quarantine
+ * directory under LOCAL_PATH instead of being deleted, and their bad remote
+ * copies are deleted so the merged view shows neither. Files rclone could
+ * not compare at all are left alone for the next run, since an error says
+ * nothing about the remote copy. Directories left empty are removed, as
+ * `rclone move --delete-empty-src-dirs` does. The check and the re-upload
+ * run with the route's transfer limits and on the move's rc socket, so the
+ * bandwidth schedule and a shutdown reach them as they reach the copy.
+ */
+
+/** Result of comparing one file, from `rclone check --combined` */
+export type CheckOutcome = "match" | "differ" | "missing" | "error";
+
+export interface TransferOptions {
+  /** Limits of the route's copy, such as --bwlimit and --transfers */
+  args: string[];
+  /** Remote control socket to listen on while rclone runs, if any */
+  rcSocket: string | null;
+}
+
+export interface VerifyOptions {
+  /** Local directory the files are relative to */
+  source: string;
+  /** rclone `remote:path` the files were copied to */
+  destination: string;
+  files: string[];
+  /** Where files that fail verification twice are moved to */
+  quarantineDir: string;
+  transfer: TransferOptions;
+  log(line: string): void;
+}
+
+export interface VerifyResult {
+  /** Files that matched their remote copy and were deleted locally */
+  verified: number;
+  /** Files that did not match on the first check */
+  mismatched: string[];
+  /** Of those, files that matched after being uploaded again */
+  reuploaded: string[];
+  /** Files moved to the quarantine directory */
+  quarantined: string[];
+  /** Files rclone could not compare, left in place for the next run */
+  unchecked: string[];
+}
+
+const COMBINED_MARKERS: Record<string, CheckOutcome> = {
+  "=": "match",
+  "*": "differ",
+  "+": "missing",
+  "!": "error",
+};
+
+/**
+ * Parse `rclone check --combined` output. Each line is a marker and a path,
+ * e.g. `= movies/a.mkv` or `* movies/b.mkv`.
+ */
+export function parseCombined(contents: string): Map<string, CheckOutcome> {
+  const outcomes = new Map<string, CheckOutcome>();
+  for (const line of contents.split("\n")) {
+    const outcome = COMBINED_MARKERS[line.slice(0, 1)];
+    if (outcome && line[1] === " ") outcomes.set(line.slice(2), outcome);
+  }
+  return outcomes;
+}
+
+/**
+ * rclone arguments for one transfer. A socket left behind by a killed
+ * transfer is removed first, since rclone cannot listen on it.
+ */
+async function transferArgs(transfer: TransferOptions): Promise<string[]> {
+  if (!transfer.rcSocket) return transfer.args;
+  await rm(transfer.rcSocket, { force: true });
+  return [...transfer.args, "--rc", "--rc-addr", `unix://${transfer.rcSocket}`];
+}
+
+/**
+ * Compare local files with their remote copies. Files that vanished locally
+ * in the meantime are not reported.
+ */
+export function checkFiles(
+  source: string,
+  destination: string,
+  files: string[],
+  transfer: TransferOptions
+): Promise<Map<string, CheckOutcome>> {
+  return withFileList(files, async (listFile, directory) => {
+    const combined = join(directory, "combined.txt");
+    // Exits non-zero when files differ, which the combined report covers
+    const { code, stderr } = await runRclone([
+      "check",
+      ...(await transferArgs(transfer)),
+      "--one-way",
+      "--files-from-raw",
+      listFile,
+      "--combined",
+      combined,
+      `${source}/`,
+      destination,
+    ]);
+
+    let contents = "";
+    try {
+      contents = await readFile(combined, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+    if (code !== 0 && !contents.trim()) {
+      throw new Error(`rclone check failed: ${stderr.trim()}`);
+    }
+    return parseCombined(contents);
+  });
+}
+
+/**
+ * Upload files again even if rclone considers them unchanged
+ */
+async function reupload(
+  source: string,
+  destination: string,
+  files: string[],
+  transfer: TransferOptions
+): Promise<void> {
+  await withFileList(files, async (listFile) => {
+    const { code, stderr } = await runRclone([
+      "copy",
+      ...(await transferArgs(transfer)),
+      "--ignore-times",
+      "--files-from-raw",
+      listFile,
+      `${source}/`,
+      destination,
+    ]);
+    if (code !== 0) {
+      throw new Error(`rclone copy failed: ${stderr.trim()}`);
+    }
+  });
+}
+
+/**
+ * Delete the remote copies of files that failed verification twice
+ */
+async function removeRemote(
+  destination: string,
+  files: string[]
+): Promise<void> {
+  await withFileList(files, async (listFile) => {
+    const { code, stderr } = await runRclone([
+      "delete",
+      "--files-from-raw",
+      listFile,
+      destination,
+    ]);
+    if (code !== 0) {
+      throw new Error(`rclone delete failed: ${stderr.trim()}`);
+    }
+  });
+}
+
+/**
+ * Delete a verified file
+ */
+async function removeSource(source: string, path: string): Promise<void> {
+  await unlink(join(source, path)).catch((error) => {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  });
+}
+
+/**
+ * Remove the directories of the given files that are now empty, deepest
+ * first, up to the source directory
+ */
+async function removeEmptyDirectories(
+  source: string,
+  files: string[]
+): Promise<void> {
+  const dirs = new Set<string>();
+  for (const path of files) {
+    for (let dir = dirname(path); dir !== "."; dir = dirname(dir)) {
+      dirs.add(dir);
+    }
+  }
+  const deepestFirst = [...dirs].sort(
+    (a, b) => b.split("/").length - a.split("/").length
+  );
+  for (const dir of deepestFirst) {
+    // Not empty, or already gone
+    await rmdir(join(source, dir)).catch(() => undefined);
+  }
+}
+
+/**
+ * Move a file that failed verification out of the way of later moves.
+ * Returns the new location, or null if the file no longer exists.
+ */
+async function quarantine(
+  source: string,
+  path: string,
+  quarantineDir: string
+): Promise<string | null> {
+  const target = join(quarantineDir, path);
+  await mkdir(dirname(target), { recursive: true });
+  try {
+    await rename(join(source, path), target);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+  return target;
+}
+
+/**
+ * Verify copied files, then delete or quarantine each one locally
+ */
+export async function verifyFiles(
+  options: VerifyOptions
+): Promise<VerifyResult> {
+  const { source, destination, transfer, log } = options;
+  const result: VerifyResult = {
+    verified: 0,
+    mismatched: [],
+    reuploaded: [],
+    quarantined: [],
+    unchecked: [],
+  };
+  if (options.files.length === 0) return result;
+
+  const first = await checkFiles(source, destination, options.files, transfer);
+  const mismatched = [...first]
+    .filter(([, outcome]) => outcome !== "match")
+    .map(([path]) => path);
+  result.mismatched = mismatched;
+  for (const path of mismatched) {
+    log(`Verification failed: ${path} (${first.get(path)})`);
+  }
+  const keep = (path: string) => {
+    result.unchecked.push(path);
+    log(`WARNING: Could not check ${path}, keeping it for the next run`);
+  };
+  const differing = mismatched.filter((path) => first.get(path) !== "error");
+
+  // Without a second check there is no evidence against the remote yet, so
+  // the files stay where they are for the next run
+  let second: Map<string, CheckOutcome> | null = new Map();
+  if (differing.length > 0) {
+    log(`Uploading ${differing.length} mismatched files again`);
+    try {
+      await reupload(source, destination, differing, transfer);
+      second = await checkFiles(source, destination, differing, transfer);
+    } catch (error) {
+      log(`Re-upload failed, keeping files: ${(error as Error).message}`);
+      second = null;
+    }
+  }
+
+  for (const [path, outcome] of first) {
+    if (outcome === "match") {
+      await removeSource(source, path);
+      result.verified++;
+    } else if (outcome === "error") {
+      keep(path);
+    } else if (!second) {
+      continue;
+    } else if (second.get(path) === "match") {
+      await removeSource(source, path);
+      result.reuploaded.push(path);
+      log(`Verified after re-upload: ${path}`);
+    } else if (second.get(path) === "error") {
+      keep(path);
+    } else {
+      const target = await quarantine(source, path, options.quarantineDir);
+      if (!target) continue;
+      result.quarantined.push(path);
+      log(`Quarantined: ${path} -> ${target}`);
+    }
+  }
+
+  // The local originals are safe in quarantine, so a failed delete only
+  // leaves the bad copies visible
+  if (result.quarantined.length > 0) {
+    try {
+      await removeRemote(destination, result.quarantined);
+      log(`Deleted ${result.quarantined.length} mismatched remote copies`);
+    } catch (error) {
+      log(
+        `Failed to delete mismatched remote copies: ${(error as Error).message}`
+      );
+    }
+  }
+
+  await removeEmptyDirectories(source, options.files);
+  return result;
+}
@@ -0,0 +1,219 @@
+import { watch, type FSWatcher } from "node:fs";
+import { lstat } from "node:fs/promises";
+import { join, relative } from "node:path";
+import {
+  createFilterMatcher,
+  HEALTH_PROBE_PREFIX,
+  type FilterRule,
+} from "../filters.js";
+import { walkFiles } from "../local-usage.js";
+import { findFilesOpenForWriting } from "../open-files.js";
+import type { Logger } from "../log.js";
+import { formatBytes } from "../size.js";
+import { MoveInProgressError, startMove } from "./runner.js";
+
+/**
+ * Watch mode: uploads files soon after they are written instead of waiting
+ * for MOVE_SCHEDULE. LOCAL_PATH is watched through inotify, and each file is
+ * queued once it has gone unchanged for the settle time. Queued files are
+ * moved in batches through the move job, with at least `interval` between
+ * the starts of two moves, so a burst of changes costs a few rclone runs
+ * rather than one per file. Files that are already waiting when the watch
+ * starts are left for the scheduled move.
+ */
+
+export interface WatchOptions {
+  localPath: string;
+  /** How long a file must go unchanged before it is queued, in ms */
+  settle: number;
+  /** Files modified more recently than this (ms) are not moved */
+  minAge: number;
+  /** Most files moved by one run */
+  batch: number;
+  /** Least time between the starts of two runs, in ms */
+  interval: number;
+  /** The move job's effective filter rules; excluded files are not queued */
+  filters: FilterRule[];
+  log: Logger;
+}
+
+export interface Watcher {
+  stop(): void;
+}
+
+/** How often settled files are queued and the queue is checked */
+const TICK_INTERVAL = 1_000;
+
+/** Wait before watching again after the watch failed */
+const RESTART_DELAY = 10_000;
+
+export function startWatcher(options: WatchOptions): Watcher {
+  const { log } = options;
+  const match = createFilterMatcher(options.filters);
+  /** Time of the last change to each path, relative to localPath */
+  const changed = new Map<string, number>();
+  /** Settled files and their size, oldest first */
+  let queue = new Map<string, number>();
+  let lastStart = 0;
+
+  let watcher: FSWatcher | null = null;
+  let timer: NodeJS.Timeout | null = null;
+  let restartTimer: NodeJS.Timeout | null = null;
+  let stopped = false;
+
+  // Events for one file are coalesced: each resets its settle time. The
+  // health check's probe file comes and goes every few seconds, whatever
+  // MOVE_FILTERS says.
+  const recordChange = (path: string, time = Date.now()) => {
+    if (path.startsWith(HEALTH_PROBE_PREFIX)) return;
+    if (match(path)?.action === "exclude") return;
+    queue.delete(path);
+    changed.set(path, time);
+  };
+
+  /**
+   * Queue a path whose settle time has passed. A directory that was moved
+   * in as a whole reports no events for its contents, so they are added.
+   */
+  const settle = async (path: string, time: number) => {
+    const absolute = join(options.localPath, path);
+    let stats;
+    try {
+      stats = await lstat(absolute);
+    } catch (error) {
+      // Moved or deleted since it changed
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+
+    if (stats.isDirectory()) {
+      await walkFiles(absolute, (file) =>
+        recordChange(relative(options.localPath, file), time)
+      );
+    } else if (stats.isFile()) {
+      // Not old enough for --min-age yet; check again once it is
+      const eligibleAt = stats.mtimeMs + options.minAge;
+      if (eligibleAt > Date.now()) {
+        changed.set(path, eligibleAt - options.settle);
+      } else {
+        queue.set(path, stats.size);
+      }
+    }
+  };
+
+  /** Take the next batch off the queue, leaving files still being written */
+  const takeBatch = async (): Promise<Map<string, number>> => {
+    const open = await findFilesOpenForWriting(options.localPath);
+    const openPaths = new Set(
+      open.map((file) => relative(options.localPath, file.path))
+    );
+    const batch = new Map<string, number>();
+    for (const [path, bytes] of queue) {
+      if (batch.size >= options.batch) break;
+      queue.delete(path);
+      if (openPaths.has(path)) recordChange(path);
+      else batch.set(path, bytes);
+    }
+    return batch;
+  };
+
+  const moveBatch = async () => {
+    if (queue.size === 0 || Date.now() - lastStart < options.interval) return;
+
+    const batch = await takeBatch();
+    if (batch.size === 0) return;
+    lastStart = Date.now();
+
+    const paths = [...batch.keys()];
+    const bytes = [...batch.values()].reduce((sum, size) => sum + size, 0);
+    const remaining = queue.size > 0 ? `, ${queue.size} more queued` : "";
+    try {
+      const { run, done } = await startMove("watch", { log, files: paths });
+      log.info(
+        `Started watch move ${run.id}: ${batch.size} files ` +
+          `(${formatBytes(bytes)})${remaining}`,
+        { id: run.id, files: batch.size, bytes, queued: queue.size, paths }
+      );
+      const result = await done;
+      log.info(`Watch move ${result.id} finished: ${result.status}`, {
+        id: result.id,
+        status: result.status,
+        files: batch.size,
+      });
+      // Failed files stay in LOCAL_PATH for the scheduled move
+      if (result.status === "skipped") {
+        queue = new Map([...batch, ...queue]);
+      }
+    } catch (error) {
+      // Put the batch back at the front of the queue for the next interval
+      queue = new Map([...batch, ...queue]);
+      if (error instanceof MoveInProgressError) {
+        log.info(`Postponing watch move: ${error.message}`, {
+          id: error.run?.id ?? null,
+          files: batch.size,
+          queued: queue.size,
+        });
+        return;
+      }
+      throw error;
+    }
+  };
+
+  const tick = async () => {
+    const due = Date.now() - options.settle;
+    for (const [path, time] of changed) {
+      if (time > due) continue;
+      changed.delete(path);
+      await settle(path, time);
+    }
+    await moveBatch();
+  };
+
+  // Wait for each tick (and any move it starts) before scheduling the next;
+  // changes that arrive meanwhile are still recorded
+  const scheduleNext = () => {
+    if (stopped) return;
+    timer = setTimeout(() => {
+      tick()
+        .catch((error) => log.error("Watch move failed", { error }))
+        .finally(scheduleNext);
+    }, TICK_INTERVAL);
+  };
+
+  const restart = (error: Error) => {
+    log.error(`Failed to watch ${options.localPath}`, {
+      path: options.localPath,
+      error,
+    });
+    watcher?.close();
+    watcher = null;
+    if (!stopped) restartTimer = setTimeout(open, RESTART_DELAY);
+  };
+
+  function open() {
+    try {
+      watcher = watch(
+        options.localPath,
+        { recursive: true },
+        (_event, filename) => {
+          if (filename) recordChange(filename);
+        }
+      );
+      watcher.on("error", restart);
+    } catch (error) {
+      restart(error as Error);
+    }
+  }
+
+  open();
+  scheduleNext();
+
+  return {
+    stop() {
+      stopped = true;
+      watcher?.close();
+      if (timer) clearTimeout(timer);
+      if (restartTimer) clearTimeout(restartTimer);
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import { readdir, readFile, readlink } from "node:fs/promises";
+import { join } from "node:path";
+
+/**
+ * Find files that a process in the container has open for writing, by
+ * scanning the file descriptors in /proc. Writes through /mnt/merged show up
+ * as mergerfs holding the underlying file in LOCAL_PATH open.
+ */
+
+export interface OpenFile {
+  /** Absolute path of the open file */
+  path: string;
+  pid: number;
+  /** Process name from /proc/<pid>/comm */
+  command: string;
+}
+
+const PROC = "/proc";
+
+/** O_ACCMODE bits of the open flags: 1 is O_WRONLY, 2 is O_RDWR */
+const ACCESS_MODE_MASK = 0o3;
+
+/**
+ * Processes and descriptors come and go during the scan, and some belong to
+ * processes we may not inspect; both are skipped rather than reported
+ */
+function isVanished(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException).code;
+  return code === "ENOENT" || code === "ESRCH" || code === "EACCES";
+}
+
+async function isOpenForWriting(pid: string, fd: string): Promise<boolean> {
+  const info = await readFile(join(PROC, pid, "fdinfo", fd), "utf8");
+  const flags = info.match(/^flags:\s*([0-7]+)$/m)?.[1];
+  return flags !== undefined && (parseInt(flags, 8) & ACCESS_MODE_MASK) !== 0;
+}
+
+export async function findFilesOpenForWriting(
+  root: string
+): Promise<OpenFile[]> {
+  const prefix = root.endsWith("/") ? root : `${root}/`;
+  const pids = (await readdir(PROC)).filter(
+    (entry) => /^\d+$/.test(entry) && entry !== String(process.pid)
+  );
+  const open: OpenFile[] = [];
+
+  for (const pid of pids) {
+    let fds: string[];
+    try {
+      fds = await readdir(join(PROC, pid, "fd"));
+    } catch (error) {
+      if (isVanished(error)) continue;
+      throw error;
+    }
+
+    for (const fd of fds) {
+      try {
+        const path = await readlink(join(PROC, pid, "fd", fd));
+        if (!path.startsWith(prefix) || path.endsWith(" (deleted)")) continue;
+        if (!(await isOpenForWriting(pid, fd))) continue;
+
+        const comm = await readFile(join(PROC, pid, "comm"), "utf8");
+        open.push({ path, pid: Number(pid), command: comm.trim() });
+      } catch (error) {
+        if (!isVanished(error)) throw error;
+      }
+    }
+  }
+
+  return open;
+}
@@ -0,0 +1,64 @@
+/**
+ * Well-known locations inside the container shared by the neomount services.
+ */
+
+/** Directory holding state that must survive service restarts */
+export const STATE_DIR = process.env.NEOMOUNT_STATE_DIR || "/var/lib/neomount";
+
+/** Shell script that performs the actual rclone move */
+export const MOVE_JOB_SCRIPT = "/scripts/move-job.sh";
+
+/** Lock held by move-job.sh for the duration of a move (see flock(1)) */
+export const MOVE_LOCK = "/run/neomount/move.lock";
+
+/** Holds the pid of the process starting a move, until the run is recorded */
+export const MOVE_START_CLAIM = "/run/neomount/move-start.claim";
+
+/** Remote control sockets of the rclone mounts, one per program */
+export const RC_SOCKET_DIR = "/run/neomount/rc";
+
+/** Created when the container starts shutting down; no move starts after */
+export const SHUTDOWN_MARKER = "/run/neomount/shutting-down";
+
+/** rclone remote control socket of the running move transfer */
+export const MOVE_RC_SOCKET = "/run/neomount/move-rc.sock";
+
+/** Output of every move job run */
+export const MOVE_LOG = "/var/log/move-job.log";
+
+/** Log files written by supervisord for each program */
+export const SUPERVISOR_LOG_DIR = "/var/log/supervisor";
+
+/**
+ * How far the logs service has read each log file, as JSON. Kept with the
+ * files, so it is persisted along with them when the directory is a volume.
+ */
+export const LOG_OFFSETS_FILE = `${SUPERVISOR_LOG_DIR}/.log-offsets.json`;
+
+/** rclone configuration file mounted by the user */
+export const RCLONE_CONFIG = "/config/rclone.conf";
+
+/** Optional neomount config file locations, in order of preference */
+export const CONFIG_FILES = [
+  "/config/neomount.yaml",
+  "/config/neomount.yml",
+  "/config/neomount.json",
+];
+
+/** Resolved configuration written by the entrypoint, as JSON */
+export const RESOLVED_CONFIG_FILE = "/run/neomount/config.json";
+
+/** Resolved configuration written by the entrypoint, as shell exports */
+export const RESOLVED_ENV_FILE = "/run/neomount/config.env";
+
+/**
+ * Environment the container was started with (docker run -e, compose
+ * environment), as NUL-separated NAME=value entries
+ */
+export const START_ENVIRONMENT = "/proc/1/environ";
+
+/** supervisord program definitions, including generated ones */
+export const SERVICES_DIR = "/etc/supervisor/services";
+
+/** Report written by each run of the health check, as JSON */
+export const HEALTH_REPORT = "/run/neomount/health.json";
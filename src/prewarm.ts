@@ -0,0 +1,356 @@
+import { createReadStream, type Stats } from "node:fs";
+import { lstat } from "node:fs/promises";
+import { isAbsolute, join, relative } from "node:path";
+import type { Config } from "./config/schema.js";
+import { escapeGlob, FilterParseError, globToRegExp } from "./filters.js";
+import { walkFiles } from "./local-usage.js";
+import type { Logger } from "./log.js";
+import { getRemoteMounts } from "./remotes.js";
+import { formatBytes, parseSize } from "./size.js";
+
+/**
+ * VFS cache pre-warming: read remote-backed files under MERGED_PATH once, so
+ * rclone keeps them in its VFS cache and the first playback is served from
+ * local disk. Files are read straight from the rclone mount that backs them;
+ * files on LOCAL_PATH are skipped, since mergerfs serves them locally anyway.
+ */
+
+export class PrewarmError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PrewarmError";
+  }
+}
+
+export interface PrewarmOptions {
+  /**
+   * Glob patterns (see src/filters.ts) relative to MERGED_PATH, or absolute
+   * under it. A pattern without wildcards may also name a directory.
+   */
+  patterns: string[];
+  /** Exact paths, matched literally; may also name directories */
+  paths: string[];
+  /** Files read at the same time */
+  concurrency: number;
+  /** Files beyond this many bytes in total are left out; null for no limit */
+  maxBytes: number | null;
+}
+
+export type PrewarmStatus = "listing" | "reading" | "finished";
+
+export interface PrewarmProgress {
+  status: PrewarmStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  /** Files selected for reading, and their size */
+  files: number;
+  bytes: number;
+  warmedFiles: number;
+  /** Bytes read so far, including files still being read */
+  readBytes: number;
+  /** Paths relative to MERGED_PATH being read right now */
+  reading: string[];
+  failed: { path: string; error: string }[];
+  /** Files on LOCAL_PATH, which need no warming */
+  skippedLocal: number;
+  /** Files left out because of maxBytes */
+  skippedOverLimit: number;
+  /** Why the pre-warm stopped early, e.g. a mount that could not be listed */
+  error: string | null;
+}
+
+export interface StartedPrewarm {
+  /** Updated as the pre-warm runs */
+  progress: PrewarmProgress;
+  done: Promise<PrewarmProgress>;
+}
+
+export const DEFAULT_PREWARM_CONCURRENCY = 2;
+
+interface Selector {
+  /** Directory relative to MERGED_PATH to search */
+  base: string;
+  match: RegExp;
+}
+
+interface PrewarmFile {
+  /** Path relative to MERGED_PATH */
+  path: string;
+  /** Where the file is read from */
+  source: string;
+  bytes: number;
+}
+
+const READ_CHUNK = 1024 * 1024;
+
+function toSelector(config: Config, input: string, literal: boolean): Selector {
+  let path = input.trim();
+  if (isAbsolute(path)) {
+    path = relative(config.mergerfs.mountPath, path);
+    if (path.startsWith("..")) {
+      throw new PrewarmError(
+        `"${input}" is not under ${config.mergerfs.mountPath}`
+      );
+    }
+  }
+  path = path.replace(/^\.?\/+|\/+$/g, "");
+  if (!path || path.split("/").includes("..")) {
+    throw new PrewarmError(`"${input}" must name something under MERGED_PATH`);
+  }
+
+  const glob = literal ? escapeGlob(path) : path;
+  const parts = glob.split("/");
+  const wildcard = parts.findIndex((part) => /[*?[{]/.test(part));
+  const plain = wildcard === -1;
+  try {
+    return {
+      // Literal path parts, where the search can start
+      base: (plain ? parts : parts.slice(0, wildcard))
+        .join("/")
+        .replace(/\\(.)/g, "$1"),
+      // A plain path matches the file, or everything in the directory
+      match: globToRegExp(plain ? `/${glob}{,/**}` : `/${glob}`),
+    };
+  } catch (error) {
+    if (error instanceof FilterParseError) {
+      throw new PrewarmError(error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Validate the patterns and paths of a pre-warm, throwing PrewarmError if
+ * any is invalid
+ */
+export function parsePrewarmSelectors(
+  config: Config,
+  options: Pick<PrewarmOptions, "patterns" | "paths">
+): Selector[] {
+  const selectors = [
+    ...options.patterns.map((pattern) => toSelector(config, pattern, false)),
+    ...options.paths.map((path) => toSelector(config, path, true)),
+  ];
+  if (selectors.length === 0) {
+    throw new PrewarmError("no patterns or paths given");
+  }
+  return selectors;
+}
+
+function stringList(value: unknown, name: string): string[] {
+  if (value === undefined) return [];
+  if (
+    !Array.isArray(value) ||
+    value.some((entry) => typeof entry !== "string")
+  ) {
+    throw new PrewarmError(`${name} must be a list of strings`);
+  }
+  return value as string[];
+}
+
+/**
+ * Build pre-warm options from a request body with `patterns`, `paths`,
+ * `concurrency` and `maxBytes` (a number of bytes, or a size such as `50G`)
+ */
+export function parsePrewarmRequest(body: unknown): PrewarmOptions {
+  if (body === null || typeof body !== "object" || Array.isArray(body)) {
+    throw new PrewarmError("expected a JSON object");
+  }
+  const fields = body as Record<string, unknown>;
+  const unknown = Object.keys(fields).filter(
+    (key) => !["patterns", "paths", "concurrency", "maxBytes"].includes(key)
+  );
+  if (unknown.length > 0) {
+    throw new PrewarmError(`unknown keys: ${unknown.join(", ")}`);
+  }
+
+  const { concurrency = DEFAULT_PREWARM_CONCURRENCY, maxBytes = null } = fields;
+  if (
+    typeof concurrency !== "number" ||
+    !Number.isInteger(concurrency) ||
+    concurrency < 1
+  ) {
+    throw new PrewarmError("concurrency must be a whole number of at least 1");
+  }
+  let limit: number | null = null;
+  if (typeof maxBytes === "number" || typeof maxBytes === "string") {
+    try {
+      limit = parseSize(String(maxBytes));
+    } catch (error) {
+      throw new PrewarmError((error as Error).message);
+    }
+  } else if (maxBytes !== null) {
+    throw new PrewarmError("maxBytes must be a number of bytes or a size");
+  }
+
+  return {
+    patterns: stringList(fields.patterns, "patterns"),
+    paths: stringList(fields.paths, "paths"),
+    concurrency,
+    maxBytes: limit,
+  };
+}
+
+async function statIfExists(path: string): Promise<Stats | null> {
+  try {
+    return await lstat(path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/**
+ * Find the files the selectors match in each remote mount. As in mergerfs,
+ * the first mount holding a path wins, and LOCAL_PATH comes before them all.
+ */
+async function listFiles(
+  config: Config,
+  selectors: Selector[],
+  progress: PrewarmProgress
+): Promise<PrewarmFile[]> {
+  const found = new Map<string, PrewarmFile>();
+  const bases = [...new Set(selectors.map((selector) => selector.base))];
+
+  for (const mount of getRemoteMounts(config)) {
+    const visit = (source: string, stats: Stats) => {
+      const path = relative(mount.mountPath, source);
+      if (found.has(path)) return;
+      if (!selectors.some((selector) => selector.match.test(path))) return;
+      found.set(path, { path, source, bytes: stats.size });
+    };
+
+    for (const base of bases) {
+      const root = join(mount.mountPath, base);
+      // A path without wildcards may name a single file
+      const stats = await statIfExists(root);
+      if (stats?.isFile()) visit(root, stats);
+      else if (stats?.isDirectory()) await walkFiles(root, visit);
+    }
+  }
+
+  const files: PrewarmFile[] = [];
+  for (const file of found.values()) {
+    if (await statIfExists(join(config.localPath, file.path))) {
+      progress.skippedLocal++;
+    } else {
+      files.push(file);
+    }
+  }
+  // In path order, so the next episodes of a series come first
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function readFile(file: PrewarmFile, progress: PrewarmProgress): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const stream = createReadStream(file.source, { highWaterMark: READ_CHUNK });
+    stream.on("data", (chunk) => (progress.readBytes += chunk.length));
+    stream.on("error", reject);
+    stream.on("end", resolve);
+  });
+}
+
+async function readFiles(
+  files: PrewarmFile[],
+  concurrency: number,
+  progress: PrewarmProgress,
+  log: Logger
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < files.length) {
+      const file = files[next++] as PrewarmFile;
+      progress.reading.push(file.path);
+      try {
+        await readFile(file, progress);
+        progress.warmedFiles++;
+        log.info(
+          `[${progress.warmedFiles + progress.failed.length}/${
+            files.length
+          }] ` + `Warmed ${file.path}`,
+          { path: file.path, bytes: file.bytes }
+        );
+      } catch (error) {
+        progress.failed.push({
+          path: file.path,
+          error: (error as Error).message,
+        });
+        log.warn(`Failed to read ${file.path}`, { path: file.path, error });
+      } finally {
+        progress.reading = progress.reading.filter((p) => p !== file.path);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: concurrency }, worker));
+}
+
+/**
+ * Start reading the selected files into the VFS cache. Throws PrewarmError
+ * if a pattern or path is invalid; failures to read a file are recorded in
+ * the progress instead.
+ */
+export function startPrewarm(
+  config: Config,
+  options: PrewarmOptions,
+  log: Logger
+): StartedPrewarm {
+  const selectors = parsePrewarmSelectors(config, options);
+  const progress: PrewarmProgress = {
+    status: "listing",
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    files: 0,
+    bytes: 0,
+    warmedFiles: 0,
+    readBytes: 0,
+    reading: [],
+    failed: [],
+    skippedLocal: 0,
+    skippedOverLimit: 0,
+    error: null,
+  };
+
+  const run = async () => {
+    const listed = await listFiles(config, selectors, progress);
+    const files: PrewarmFile[] = [];
+    for (const file of listed) {
+      if (
+        options.maxBytes !== null &&
+        progress.bytes + file.bytes > options.maxBytes
+      ) {
+        // Stop at the first file over the limit, to keep the order
+        progress.skippedOverLimit = listed.length - files.length;
+        break;
+      }
+      files.push(file);
+      progress.files++;
+      progress.bytes += file.bytes;
+    }
+
+    progress.status = "reading";
+    log.info(
+      `Reading ${progress.files} files (${formatBytes(progress.bytes)}), ` +
+        `${options.concurrency} at a time`,
+      {
+        files: progress.files,
+        bytes: progress.bytes,
+        concurrency: options.concurrency,
+      }
+    );
+    await readFiles(files, options.concurrency, progress, log);
+  };
+
+  const done = run()
+    .catch((error) => {
+      progress.error = (error as Error).message;
+      log.error("Pre-warm failed", { error });
+    })
+    .then(() => {
+      progress.status = "finished";
+      progress.finishedAt = new Date().toISOString();
+      progress.reading = [];
+      return progress;
+    });
+
+  return { progress, done };
+}
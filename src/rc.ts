@@ -0,0 +1,107 @@
+import { request } from "node:http";
+
+/**
+ * Client for the remote control API of running rclone processes. Every
+ * rclone the container starts for a long time (the mounts, and the move
+ * transfers) listens on a unix socket under /run/neomount; nothing is
+ * exposed on the network.
+ */
+
+export class RcError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "RcError";
+  }
+}
+
+/** Subset of the output of `vfs/stats` */
+export interface VfsStats {
+  /** The mounted remote, e.g. `gdrive:media` */
+  fs: string;
+  /** Open file handles */
+  inUse: number;
+  /** Directories and files whose metadata is cached */
+  metadataCache: { dirs: number; files: number };
+  /** Only present when --vfs-cache-mode is not off */
+  diskCache?: {
+    bytesUsed: number;
+    files: number;
+    erroredFiles: number;
+    uploadsInProgress: number;
+    uploadsQueued: number;
+    outOfSpace: boolean;
+  };
+}
+
+const RC_TIMEOUT = 10_000;
+
+/**
+ * Call a method of the rclone remote control API listening on a unix socket
+ * (rclone --rc --rc-addr unix://SOCKET) and resolve with its JSON output
+ */
+export function rcCall<T = Record<string, unknown>>(
+  socket: string,
+  method: string,
+  params: Record<string, unknown> = {}
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      {
+        socketPath: socket,
+        method: "POST",
+        path: `/${method}`,
+        headers: { "content-type": "application/json" },
+        timeout: RC_TIMEOUT,
+      },
+      (res) => {
+        let body = "";
+        res.setEncoding("utf8");
+        res.on("data", (chunk: string) => (body += chunk));
+        res.on("error", reject);
+        res.on("end", () => {
+          let output: Record<string, unknown>;
+          try {
+            output = JSON.parse(body) as Record<string, unknown>;
+          } catch {
+            reject(new RcError(`rc ${method}: invalid response`, 0));
+            return;
+          }
+          if (res.statusCode !== 200) {
+            const error = output.error ?? `HTTP ${res.statusCode}`;
+            reject(new RcError(`rc ${method}: ${error}`, res.statusCode ?? 0));
+            return;
+          }
+          resolve(output as T);
+        });
+      }
+    );
+    req.on("timeout", () => req.destroy(new Error(`rc ${method} timed out`)));
+    req.on("error", reject);
+    req.end(JSON.stringify(params));
+  });
+}
+
+/**
+ * Re-read the given directories of a mount from the remote, so changes made
+ * outside the mount show up before --dir-cache-time runs out. Paths are
+ * relative to the root of the mount; no paths refreshes the root. Resolves
+ * with the outcome per directory: `OK`, or the reason it failed, e.g. when
+ * the directory is not in the cache yet.
+ */
+export async function vfsRefresh(
+  socket: string,
+  dirs: string[]
+): Promise<Record<string, string>> {
+  const params: Record<string, string> = {};
+  dirs.forEach((dir, i) => (params[i === 0 ? "dir" : `dir${i + 1}`] = dir));
+  const output = await rcCall<{ result?: Record<string, string> }>(
+    socket,
+    "vfs/refresh",
+    params
+  );
+  return output.result ?? {};
+}
+
+export function vfsStats(socket: string): Promise<VfsStats> {
+  return rcCall<VfsStats>(socket, "vfs/stats");
+}
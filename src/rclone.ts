@@ -0,0 +1,55 @@
+import { execFile } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { RCLONE_CONFIG } from "./paths.js";
+
+/**
+ * Helpers for running one-off rclone commands against the user's rclone.conf
+ */
+
+export interface RcloneResult {
+  /** Exit code; rclone uses non-zero codes for partial failures too */
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run rclone and resolve with its exit code and output. Only rejects when
+ * rclone could not be started or was killed.
+ */
+export function runRclone(args: string[]): Promise<RcloneResult> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "rclone",
+      ["--config", RCLONE_CONFIG, ...args],
+      { maxBuffer: 64 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error && typeof error.code !== "number") {
+          reject(error);
+          return;
+        }
+        resolve({ code: error ? (error.code as number) : 0, stdout, stderr });
+      }
+    );
+  });
+}
+
+/**
+ * Write a list of paths for --files-from-raw to a temporary directory, which
+ * is removed once `run` settles. `run` may put its own files there too.
+ */
+export async function withFileList<T>(
+  files: string[],
+  run: (listFile: string, directory: string) => Promise<T>
+): Promise<T> {
+  const directory = await mkdtemp(join(tmpdir(), "neomount-rclone-"));
+  try {
+    const listFile = join(directory, "files.txt");
+    await writeFile(listFile, files.join("\n") + "\n");
+    return await run(listFile, directory);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,75 @@
+import { join } from "node:path";
+import type { Config } from "./config/schema.js";
+import { RC_SOCKET_DIR } from "./paths.js";
+
+/**
+ * The rclone remotes merged into the mergerfs pool: RCLONE_REMOTE, mounted by
+ * the `rclone` program, followed by every RCLONE_EXTRA_REMOTES entry, each
+ * mounted by a program generated from services/rclone.conf
+ */
+
+export interface RemoteMount {
+  /** supervisord program running the mount */
+  program: string;
+  remote: string;
+  remotePath: string;
+  mountPath: string;
+  /** Remote control socket of the mount (see src/rc.ts) */
+  rcSocket: string;
+}
+
+/** Program running the mount of RCLONE_REMOTE */
+export const PRIMARY_PROGRAM = "rclone";
+
+/**
+ * Turn a remote name into something usable in program and directory names
+ */
+export function remoteSlug(remote: string): string {
+  return (
+    remote
+      .toLowerCase()
+      .replace(/[^a-z0-9_-]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "remote"
+  );
+}
+
+function rcSocket(program: string): string {
+  return join(RC_SOCKET_DIR, `${program}.sock`);
+}
+
+export function getRemoteMounts(config: Config): RemoteMount[] {
+  const mounts: RemoteMount[] = [
+    {
+      program: PRIMARY_PROGRAM,
+      remote: config.rclone.remote,
+      remotePath: config.rclone.remotePath,
+      mountPath: config.rclone.mountPath,
+      rcSocket: rcSocket(PRIMARY_PROGRAM),
+    },
+  ];
+
+  // A remote listed more than once (with different paths) gets a numbered
+  // program name for each additional listing
+  const programs = new Set([PRIMARY_PROGRAM]);
+  for (const extra of config.rclone.extraRemotes) {
+    const base = `${PRIMARY_PROGRAM}-${remoteSlug(extra.remote)}`;
+    let program = base;
+    for (let n = 2; programs.has(program); n++) program = `${base}-${n}`;
+    programs.add(program);
+    mounts.push({ program, ...extra, rcSocket: rcSocket(program) });
+  }
+
+  return mounts;
+}
+
+/**
+ * The remote the move job uploads to: the first one named by
+ * MOVE_UPLOAD_REMOTE, or RCLONE_REMOTE if unset
+ */
+export function getUploadRemote(config: Config): RemoteMount {
+  const mounts = getRemoteMounts(config);
+  const upload = config.move.uploadRemote
+    ? mounts.find((mount) => mount.remote === config.move.uploadRemote)
+    : undefined;
+  return upload ?? (mounts[0] as RemoteMount);
+}
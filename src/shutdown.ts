@@ -0,0 +1,237 @@
+import { execFile } from "node:child_process";
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import type { Config } from "./config/schema.js";
+import { formatDuration } from "./duration.js";
+import type { Logger } from "./log.js";
+import { getMountStatuses } from "./mounts.js";
+import { cancelMove, getLastRun, isLockHeld } from "./move/runner.js";
+import { MOVE_RC_SOCKET, SHUTDOWN_MARKER } from "./paths.js";
+import { rcCall, vfsStats } from "./rc.js";
+import { getRemoteMounts, type RemoteMount } from "./remotes.js";
+import { stopPrograms } from "./supervisor.js";
+
+/**
+ * Ordered shutdown of the container, run by the entrypoint when `docker
+ * stop` signals it and before supervisord stops whatever is left:
+ *
+ * 1. no new move starts, and a running move skips its remaining routes
+ * 2. the running move finishes the files it is transferring, or is
+ *    cancelled once MOVE_SHARE of SHUTDOWN_TIMEOUT has passed
+ * 3. mergerfs is unmounted, then each rclone mount
+ * 4. each rclone mount uploads the writes in its VFS cache before it is
+ *    unmounted, until SHUTDOWN_TIMEOUT is up
+ *
+ * Everything has to finish before `docker stop` gives up and kills the
+ * container, so the steps share one time budget.
+ *
+ * Programs are stopped through supervisord so they are not restarted; a
+ * FUSE daemon unmounts its mount point when it receives SIGTERM.
+ */
+
+/** Programs that start moves or restart mounts */
+const SERVICE_PROGRAMS = ["scheduler", "api", "watchdog"];
+
+const MERGERFS_PROGRAM = "mergerfs";
+
+const POLL_INTERVAL = 1_000;
+
+/** How long a cancelled move may take to exit, if the budget allows */
+const CANCEL_TIMEOUT = 10_000;
+
+/** Part of SHUTDOWN_TIMEOUT a running move may take to finish */
+const MOVE_SHARE = 2 / 3;
+
+/** How long `docker stop` waits before killing the container by default */
+export const DOCKER_STOP_TIMEOUT = 10_000;
+
+/**
+ * Wait until the move lock is free. Resolves with false at the deadline.
+ */
+async function waitForMove(deadline: number): Promise<boolean> {
+  while (await isLockHeld()) {
+    if (Date.now() >= deadline) return false;
+    await sleep(POLL_INTERVAL);
+  }
+  return true;
+}
+
+/**
+ * Ask the running transfer to start no new files, and to exit once the
+ * files in flight are done: a soft --max-transfer limit that has already
+ * been reached
+ */
+async function stopNewTransfers(log: Logger): Promise<void> {
+  try {
+    await rcCall(MOVE_RC_SOCKET, "options/set", {
+      main: { MaxTransfer: 1, CutoffMode: "soft" },
+    });
+    log.info("Asked the move transfer to finish its in-flight files");
+  } catch (error) {
+    // No transfer between routes, or between the steps of a verification
+    log.debug("Move transfer did not take the transfer limit", { error });
+  }
+}
+
+async function stopMove(
+  config: Config,
+  deadline: number,
+  log: Logger
+): Promise<void> {
+  if (!(await isLockHeld())) {
+    log.info("No move running");
+    return;
+  }
+
+  const moveTimeout = Math.round(config.shutdown.timeout * MOVE_SHARE);
+  const run = await getLastRun();
+  log.info(
+    `Waiting up to ${formatDuration(moveTimeout)} for the running move ` +
+      "to finish",
+    { id: run?.status === "running" ? run.id : null }
+  );
+  await stopNewTransfers(log);
+  if (await waitForMove(Date.now() + moveTimeout)) {
+    log.info("Move finished");
+    return;
+  }
+
+  const cancelled = await cancelMove();
+  if (!cancelled) {
+    // Started by hand, so there is no process group on record to signal
+    log.warn("Move did not finish in time and cannot be cancelled");
+    return;
+  }
+  log.warn(`Move did not finish in time, cancelled move ${cancelled.id}`, {
+    id: cancelled.id,
+  });
+  const cancelDeadline = Math.min(Date.now() + CANCEL_TIMEOUT, deadline);
+  if (!(await waitForMove(cancelDeadline))) {
+    log.error(`Move ${cancelled.id} is still running after cancelling it`);
+  }
+}
+
+function fusermount(args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile("fusermount", args, { timeout: 10_000 }, (error, _, stderr) => {
+      if (error) reject(new Error(stderr.trim() || error.message));
+      else resolve();
+    });
+  });
+}
+
+/**
+ * Stop the program serving a mount, then make sure nothing is left mounted.
+ * A mount the program left behind is unmounted, lazily if it is busy.
+ */
+async function unmount(
+  program: string,
+  path: string,
+  log: Logger
+): Promise<void> {
+  log.info(`Unmounting ${path}`, { program, path });
+  try {
+    await stopPrograms([program]);
+  } catch (error) {
+    log.error(`Failed to stop ${program}`, { error });
+  }
+
+  const [status] = await getMountStatuses([path]);
+  if (!status?.mounted) {
+    log.info(`Unmounted ${path}`, { program, path });
+    return;
+  }
+
+  try {
+    await fusermount(["-u", path]);
+    log.warn(`${program} left ${path} mounted, unmounted it`, {
+      program,
+      path,
+    });
+  } catch (error) {
+    log.warn(`${path} is busy, unmounting it lazily`, {
+      program,
+      path,
+      error,
+    });
+    await fusermount(["-uz", path]).catch((error) =>
+      log.error(`Failed to unmount ${path}`, { program, path, error })
+    );
+  }
+}
+
+/**
+ * Wait for a mount to upload the writes in its VFS cache. Resolves with the
+ * number of files still waiting at the deadline.
+ */
+async function flushWrites(
+  mount: RemoteMount,
+  deadline: number,
+  log: Logger
+): Promise<number> {
+  for (;;) {
+    let pending: number;
+    try {
+      const { diskCache } = await vfsStats(mount.rcSocket);
+      pending =
+        (diskCache?.uploadsInProgress ?? 0) + (diskCache?.uploadsQueued ?? 0);
+    } catch (error) {
+      log.warn(`Failed to read the VFS cache of ${mount.program}`, {
+        program: mount.program,
+        error,
+      });
+      return 0;
+    }
+    if (pending === 0 || Date.now() >= deadline) return pending;
+
+    log.info(`Waiting for ${pending} uploads from ${mount.mountPath}`, {
+      program: mount.program,
+      pending,
+    });
+    await sleep(POLL_INTERVAL);
+  }
+}
+
+async function flushAndUnmount(
+  config: Config,
+  deadline: number,
+  log: Logger
+): Promise<void> {
+  for (const mount of getRemoteMounts(config)) {
+    log.info(`Flushing VFS cache writes of ${mount.mountPath}`, {
+      program: mount.program,
+    });
+    const pending = await flushWrites(mount, deadline, log);
+    if (pending > 0) {
+      // rclone uploads them from the cache when the mount next starts
+      log.warn(
+        `${pending} uploads from ${mount.mountPath} did not finish in time`,
+        { program: mount.program, pending }
+      );
+    }
+    await unmount(mount.program, mount.mountPath, log);
+  }
+}
+
+export async function shutdown(config: Config, log: Logger): Promise<void> {
+  const deadline = Date.now() + config.shutdown.timeout;
+  log.info("Shutting down: stopping new moves", {
+    timeout: config.shutdown.timeout,
+  });
+  await mkdir(dirname(SHUTDOWN_MARKER), { recursive: true });
+  await writeFile(SHUTDOWN_MARKER, new Date().toISOString() + "\n");
+
+  await stopMove(config, deadline, log);
+
+  log.info(`Stopping ${SERVICE_PROGRAMS.join(", ")}`);
+  try {
+    await stopPrograms(SERVICE_PROGRAMS);
+  } catch (error) {
+    log.error("Failed to stop services", { error });
+  }
+
+  await unmount(MERGERFS_PROGRAM, config.mergerfs.mountPath, log);
+  await flushAndUnmount(config, deadline, log);
+  log.info("Shutdown complete");
+}
@@ -0,0 +1,32 @@
+/**
+ * Parsing and formatting of byte counts
+ */
+
+const UNITS = ["B", "KiB", "MiB", "GiB", "TiB", "PiB"];
+
+/**
+ * Format a byte count with binary units, e.g. `1.5 GiB`
+ */
+export function formatBytes(bytes: number): string {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${UNITS[unit]}`;
+}
+
+/**
+ * Parse a size such as `10G`, `512MiB` or `1.5T` into bytes. Units are
+ * binary, as in rclone and mergerfs. A bare number is taken as bytes.
+ */
+export function parseSize(input: string): number {
+  const match = input.trim().match(/^(\d+(?:\.\d+)?)\s*([KMGTP]?)(?:i?B)?$/i);
+  if (!match) {
+    throw new Error(`"${input}" is not a valid size (e.g. 500M, 10G)`);
+  }
+  const [, amount = "", unit = ""] = match;
+  const power = unit ? "BKMGTP".indexOf(unit.toUpperCase()) : 0;
+  return Math.round(Number(amount) * 1024 ** power);
+}
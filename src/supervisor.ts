@@ -0,0 +1,139 @@
+import { execFile } from "node:child_process";
+import { readFile } from "node:fs/promises";
+
+/**
+ * Thin wrapper around `supervisorctl` for querying and controlling the
+ * programs defined in services/*.conf.
+ */
+
+export interface ProgramStatus {
+  name: string;
+  state: string;
+  pid: number | null;
+  /** Remainder of the status line (uptime, exit reason, ...) */
+  description: string;
+}
+
+const SUPERVISORCTL = "supervisorctl";
+const SUPERVISOR_CONFIG = "/etc/supervisor/conf.d/supervisord.conf";
+const SUPERVISOR_LOG = "/var/log/supervisor/supervisord.log";
+
+function supervisorctl(args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      SUPERVISORCTL,
+      ["-c", SUPERVISOR_CONFIG, ...args],
+      { timeout: 10000 },
+      (error, stdout, stderr) => {
+        // `status` exits with code 3 when any program is not RUNNING, which
+        // is expected for one-shot programs, so only fail on empty output
+        if (error && !stdout.trim()) {
+          reject(
+            new Error(
+              `supervisorctl ${args.join(" ")} failed: ${
+                stderr.trim() || error.message
+              }`
+            )
+          );
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+/**
+ * Parse a single `supervisorctl status` line, e.g.
+ * `rclone    RUNNING   pid 12, uptime 0:01:02`
+ */
+export function parseStatusLine(line: string): ProgramStatus | null {
+  const match = line.match(/^(\S+)\s+([A-Z]+)\s*(.*)$/);
+  if (!match) return null;
+
+  const [, name = "", state = "", description = ""] = match;
+  const pid = description.match(/^pid (\d+)/);
+
+  return {
+    name,
+    state,
+    pid: pid?.[1] ? Number(pid[1]) : null,
+    description: description.trim(),
+  };
+}
+
+/**
+ * Get the status of every supervisord program
+ */
+export async function getProgramStatuses(): Promise<ProgramStatus[]> {
+  const output = await supervisorctl(["status"]);
+  return output
+    .split("\n")
+    .map(parseStatusLine)
+    .filter((status): status is ProgramStatus => status !== null);
+}
+
+/**
+ * Get the status of a single program, or null if it is not defined
+ */
+export async function getProgramStatus(
+  name: string
+): Promise<ProgramStatus | null> {
+  const statuses = await getProgramStatuses();
+  return statuses.find((status) => status.name === name) ?? null;
+}
+
+/**
+ * Count how many times each program has been restarted since supervisord
+ * started, from the `spawned:` lines in supervisord.log. The first spawn of
+ * each program is its initial start, not a restart. Counts start over when
+ * the log is rotated.
+ */
+export async function getRestartCounts(): Promise<Map<string, number>> {
+  let log: string;
+  try {
+    log = await readFile(SUPERVISOR_LOG, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return new Map();
+    throw error;
+  }
+
+  // Only look at the current supervisord instance when logs are persisted
+  const start = log.lastIndexOf("supervisord started with pid");
+  const current = start === -1 ? log : log.slice(start);
+
+  const spawns = new Map<string, number>();
+  for (const match of current.matchAll(/spawned: '([^']+)' with pid/g)) {
+    const name = match[1] as string;
+    spawns.set(name, (spawns.get(name) ?? 0) + 1);
+  }
+
+  return new Map(
+    [...spawns].map(([name, count]) => [name, Math.max(count - 1, 0)])
+  );
+}
+
+/**
+ * Stop programs and wait for supervisord to report them stopped. Programs
+ * that are already stopped are left as they are.
+ */
+export async function stopPrograms(names: string[]): Promise<void> {
+  const output = await supervisorctl(["stop", ...names]);
+  const error = output.match(/^(\S+): ERROR (?!\(not running\))(.*)$/m);
+  if (error) {
+    throw new Error(`Failed to stop ${error[1]}: ${error[2]}`);
+  }
+}
+
+/**
+ * Restart a program and wait for supervisord to report it started
+ */
+export async function restartProgram(name: string): Promise<void> {
+  const output = await supervisorctl(["restart", name]);
+  // supervisorctl reports failures such as "rclone: ERROR (spawn error)"
+  // with a non-zero exit code but output on stdout
+  const error = output.match(/^\S+: ERROR (.*)$/m);
+  if (error) {
+    throw new Error(`Failed to restart ${name}: ${error[1]}`);
+  }
+}
@@ -0,0 +1,33 @@
+import type { Config } from "./config/schema.js";
+import { vfsStats, type VfsStats } from "./rc.js";
+import { getRemoteMounts } from "./remotes.js";
+
+/**
+ * VFS cache usage of every rclone mount, read through its remote control
+ * socket
+ */
+
+export interface MountVfsStats {
+  program: string;
+  mountPath: string;
+  /** Null if the mount did not answer */
+  stats: VfsStats | null;
+  error: string | null;
+}
+
+export async function getVfsStats(config: Config): Promise<MountVfsStats[]> {
+  return Promise.all(
+    getRemoteMounts(config).map(async (mount) => {
+      const result = { program: mount.program, mountPath: mount.mountPath };
+      try {
+        return {
+          ...result,
+          stats: await vfsStats(mount.rcSocket),
+          error: null,
+        };
+      } catch (error) {
+        return { ...result, stats: null, error: (error as Error).message };
+      }
+    })
+  );
+}
@@ -0,0 +1,63 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { STATE_DIR } from "../paths.js";
+import type { ProbeOperation } from "./probe.js";
+
+/**
+ * Journal of watchdog recoveries, one JSON object per line
+ */
+
+export interface MountFailure {
+  /** Program serving the mount, e.g. `rclone` or `mergerfs` */
+  program: string;
+  path: string;
+  operation: ProbeOperation | null;
+  error: string | null;
+}
+
+export interface RecoveryEvent {
+  startedAt: string;
+  finishedAt: string;
+  /** The failed probes that triggered the recovery */
+  failures: MountFailure[];
+  /** Programs restarted, in order */
+  restarted: string[];
+  outcome: "recovered" | "failed";
+  /** Why the recovery failed */
+  error: string | null;
+}
+
+export const EVENTS_FILE = join(STATE_DIR, "recovery-events.jsonl");
+
+export async function appendRecoveryEvent(event: RecoveryEvent): Promise<void> {
+  await mkdir(dirname(EVENTS_FILE), { recursive: true });
+  await appendFile(EVENTS_FILE, JSON.stringify(event) + "\n");
+}
+
+/**
+ * Read the journal, newest first. Lines that cannot be parsed are skipped.
+ */
+export async function readRecoveryEvents(
+  limit?: number
+): Promise<RecoveryEvent[]> {
+  let contents: string;
+  try {
+    contents = await readFile(EVENTS_FILE, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const events: RecoveryEvent[] = [];
+  for (const line of contents.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      events.push(JSON.parse(line) as RecoveryEvent);
+    } catch {
+      continue;
+    }
+  }
+
+  events.reverse();
+  return limit === undefined ? events : events.slice(0, limit);
+}
@@ -0,0 +1,76 @@
+import { execFile } from "node:child_process";
+import { formatDuration } from "../duration.js";
+import { getMountStatuses } from "../mounts.js";
+
+/**
+ * Active health probes for FUSE mounts. A stat or readdir on a dead mount
+ * either fails with "Transport endpoint is not connected" or hangs forever,
+ * so each operation runs in a child process that is abandoned once the
+ * timeout passes; a hung system call in this process would block it for
+ * good.
+ */
+
+export type ProbeOperation = "mountpoint" | "stat" | "readdir";
+
+export interface ProbeResult {
+  path: string;
+  ok: boolean;
+  /** First operation that failed, if any */
+  operation: ProbeOperation | null;
+  error: string | null;
+  durationMs: number;
+}
+
+function runWithTimeout(
+  command: string,
+  args: string[],
+  timeout: number
+): Promise<string | null> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      // SIGKILL cannot interrupt a process stuck in the kernel, which is
+      // why the result does not wait for the child to exit
+      child.kill("SIGKILL");
+      resolve(`timed out after ${formatDuration(timeout)}`);
+    }, timeout);
+
+    const child = execFile(command, args, (error, _stdout, stderr) => {
+      clearTimeout(timer);
+      resolve(error ? stderr.trim() || error.message : null);
+    });
+  });
+}
+
+/**
+ * Check that a path is mounted, can be stat'ed and its first directory
+ * entry can be read, each within `timeout` milliseconds
+ */
+export async function probeMount(
+  path: string,
+  timeout: number
+): Promise<ProbeResult> {
+  const started = Date.now();
+  const result = (operation: ProbeOperation | null, error: string | null) => ({
+    path,
+    ok: error === null,
+    operation,
+    error,
+    durationMs: Date.now() - started,
+  });
+
+  const [mount] = await getMountStatuses([path]);
+  if (!mount?.mounted) return result("mountpoint", "not mounted");
+
+  const statError = await runWithTimeout("stat", ["--", path], timeout);
+  if (statError) return result("stat", statError);
+
+  // find stops after the first entry, so large directories stay cheap
+  const readdirError = await runWithTimeout(
+    "find",
+    [path, "-mindepth", "1", "-maxdepth", "1", "-print", "-quit"],
+    timeout
+  );
+  if (readdirError) return result("readdir", readdirError);
+
+  return result(null, null);
+}
@@ -0,0 +1,268 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import { formatDuration } from "../duration.js";
+import type { Logger } from "../log.js";
+import type { RemoteMount } from "../remotes.js";
+import { getRestartCounts, restartProgram } from "../supervisor.js";
+import {
+  appendRecoveryEvent,
+  type MountFailure,
+  type RecoveryEvent,
+} from "./events.js";
+import { probeMount, type ProbeResult } from "./probe.js";
+
+/**
+ * Probes every rclone mount and the mergerfs mount on an interval. When a
+ * mount fails its probe on consecutive checks, the dead rclone programs are
+ * restarted first and, once their mounts answer again, mergerfs is
+ * restarted on top of them. Every recovery is recorded in the event journal.
+ * A mount program restarted too often within a window, by supervisord or
+ * by the watchdog, is reported as a crash loop, since restarting is not
+ * fixing whatever kills it.
+ */
+
+export interface WatchdogOptions {
+  remotes: RemoteMount[];
+  mergedPath: string;
+  /** Time between checks, in milliseconds */
+  interval: number;
+  /** Time each probe operation may take, in milliseconds */
+  timeout: number;
+  /** Restarts of one program within crashLoopWindow that count as a crash loop */
+  crashLoopRestarts: number;
+  /** Window for counting restarts, in milliseconds */
+  crashLoopWindow: number;
+  log: Logger;
+  /**
+   * Called when a mount stops answering its probe (`down`), and when it
+   * answers again after that (`up`)
+   */
+  onMountChange?(change: MountChange): void;
+  /**
+   * Called when a program's restarts within the window reach
+   * crashLoopRestarts, and again only after they dropped below it
+   */
+  onCrashLoop?(loop: CrashLoop): void;
+}
+
+export interface MountChange {
+  program: string;
+  path: string;
+  up: boolean;
+  /** Why the probe failed, for a mount going down */
+  error: string | null;
+}
+
+export interface CrashLoop {
+  program: string;
+  /** Restarts within the window, the latest included */
+  restarts: number;
+  /** Length of the window, in milliseconds */
+  window: number;
+}
+
+export interface Watchdog {
+  stop(): void;
+}
+
+const MERGERFS_PROGRAM = "mergerfs";
+
+/** Failed checks in a row before recovering, so one slow probe is tolerated */
+const FAILURES_BEFORE_RECOVERY = 2;
+
+/** How long a restarted mount has to answer its probe again */
+const RECOVERY_TIMEOUT = 120_000;
+const RECOVERY_POLL_INTERVAL = 2_000;
+
+async function waitForMount(
+  path: string,
+  timeout: number
+): Promise<ProbeResult> {
+  const deadline = Date.now() + RECOVERY_TIMEOUT;
+  for (;;) {
+    const result = await probeMount(path, timeout);
+    if (result.ok || Date.now() >= deadline) return result;
+    await sleep(RECOVERY_POLL_INTERVAL);
+  }
+}
+
+async function recover(
+  failures: MountFailure[],
+  options: WatchdogOptions
+): Promise<RecoveryEvent> {
+  const startedAt = new Date().toISOString();
+  const restarted: string[] = [];
+  const dead = options.remotes.filter((remote) =>
+    failures.some((failure) => failure.program === remote.program)
+  );
+
+  const restart = async (program: string, path: string) => {
+    options.log.info(`Restarting ${program}`, { program });
+    await restartProgram(program);
+    restarted.push(program);
+    const result = await waitForMount(path, options.timeout);
+    if (!result.ok) {
+      throw new Error(
+        `${program} did not recover: ${result.operation} ${path}: ${result.error}`
+      );
+    }
+  };
+
+  let error: string | null = null;
+  try {
+    // mergerfs keeps pointing at the dead branch, so it always follows
+    for (const remote of dead) await restart(remote.program, remote.mountPath);
+    await restart(MERGERFS_PROGRAM, options.mergedPath);
+  } catch (failure) {
+    error = (failure as Error).message;
+  }
+
+  return {
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    failures,
+    restarted,
+    outcome: error ? "failed" : "recovered",
+    error,
+  };
+}
+
+export function startWatchdog(options: WatchdogOptions): Watchdog {
+  const { log } = options;
+  const targets = [
+    ...options.remotes.map((remote) => ({
+      program: remote.program,
+      path: remote.mountPath,
+    })),
+    { program: MERGERFS_PROGRAM, path: options.mergedPath },
+  ];
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = false;
+  let consecutiveFailures = 0;
+  const mountUp = new Map<string, boolean>();
+  /** Restart counts from the supervisord log at the previous check */
+  let lastCounts: Map<string, number> | null = null;
+  /** Times of recent restarts per program, oldest first */
+  const restarts = new Map<string, number[]>();
+  const looping = new Set<string>();
+
+  // supervisord's restart counts include the watchdog's own restarts, so
+  // every recovery is counted without being counted twice
+  const countRestarts = async () => {
+    const counts = await getRestartCounts();
+    const now = Date.now();
+    for (const { program } of targets) {
+      const count = counts.get(program) ?? 0;
+      const previous = lastCounts?.get(program) ?? count;
+      // A lower count means the log was rotated or supervisord restarted
+      const added = Math.max(0, count - previous);
+      const times = [
+        ...(restarts.get(program) ?? []).filter(
+          (time) => time > now - options.crashLoopWindow
+        ),
+        ...Array.from({ length: added }, () => now),
+      ];
+      restarts.set(program, times);
+
+      if (times.length < options.crashLoopRestarts) {
+        looping.delete(program);
+        continue;
+      }
+      if (looping.has(program)) continue;
+      looping.add(program);
+      log.error(
+        `${program} restarted ${times.length} times within ` +
+          `${formatDuration(options.crashLoopWindow)}; the mount keeps failing`,
+        { program, restarts: times.length }
+      );
+      options.onCrashLoop?.({
+        program,
+        restarts: times.length,
+        window: options.crashLoopWindow,
+      });
+    }
+    lastCounts = counts;
+  };
+
+  const check = async () => {
+    await countRestarts().catch((error) =>
+      log.warn("Could not read restart counts", { error })
+    );
+    const results = await Promise.all(
+      targets.map((target) => probeMount(target.path, options.timeout))
+    );
+    results.forEach((result, i) => {
+      const program = targets[i]?.program ?? "";
+      const previous = mountUp.get(result.path);
+      if (previous === result.ok) return;
+      mountUp.set(result.path, result.ok);
+      // A mount seen answering for the first time was never reported down
+      if (result.ok && previous === undefined) return;
+      options.onMountChange?.({
+        program,
+        path: result.path,
+        up: result.ok,
+        error: result.ok ? null : `${result.operation}: ${result.error}`,
+      });
+    });
+    const failures: MountFailure[] = results.flatMap((result, i) =>
+      result.ok
+        ? []
+        : [
+            {
+              program: targets[i]?.program ?? "",
+              path: result.path,
+              operation: result.operation,
+              error: result.error,
+            },
+          ]
+    );
+
+    if (failures.length === 0) {
+      if (consecutiveFailures > 0) log.info("All mounts healthy again");
+      consecutiveFailures = 0;
+      return;
+    }
+
+    consecutiveFailures++;
+    for (const failure of failures) {
+      log.warn(
+        `Probe failed (${consecutiveFailures}/${FAILURES_BEFORE_RECOVERY}): ` +
+          `${failure.program} ${failure.operation} ${failure.path}: ${failure.error}`,
+        { ...failure, failures: consecutiveFailures }
+      );
+    }
+    if (consecutiveFailures < FAILURES_BEFORE_RECOVERY) return;
+
+    consecutiveFailures = 0;
+    const event = await recover(failures, options);
+    await appendRecoveryEvent(event);
+    if (event.error) {
+      log.error(`Recovery failed: ${event.error}`, {
+        restarted: event.restarted,
+      });
+    } else {
+      log.info(`Recovered by restarting ${event.restarted.join(", ")}`, {
+        restarted: event.restarted,
+      });
+    }
+  };
+
+  // Wait for each check (and any recovery) before scheduling the next
+  const scheduleNext = () => {
+    if (stopped) return;
+    timer = setTimeout(() => {
+      check()
+        .catch((error) => log.error("Watchdog check failed", { error }))
+        .finally(scheduleNext);
+    }, options.interval);
+  };
+
+  scheduleNext();
+
+  return {
+    stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
@@ -0,0 +1,255 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import { hostname } from "node:os";
+import { dirname, join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import type { Config } from "./config/schema.js";
+import type { Logger } from "./log.js";
+import { STATE_DIR } from "./paths.js";
+
+/**
+ * Outbound webhook notifications. Each event is POSTed to every configured
+ * URL as a generic JSON body, or formatted for Slack or Discord incoming
+ * webhooks. Failed deliveries are retried with exponential backoff; events
+ * that still cannot be delivered are appended to a dead-letter log.
+ */
+
+export const WEBHOOK_EVENTS = [
+  "move.started",
+  "move.finished",
+  "move.failed",
+  "mount.up",
+  "mount.down",
+  "mount.crashloop",
+  "disk.low",
+  "config.invalid",
+] as const;
+
+/** Sent by `notify.js --test` regardless of WEBHOOK_EVENTS */
+export type WebhookEventName = (typeof WEBHOOK_EVENTS)[number] | "test";
+
+export type WebhookFormat = "json" | "slack" | "discord";
+
+export const WEBHOOK_FORMATS: WebhookFormat[] = ["json", "slack", "discord"];
+
+export interface WebhookEvent {
+  event: WebhookEventName;
+  timestamp: string;
+  /** Container hostname, to tell several neomount instances apart */
+  host: string;
+  message: string;
+  data: Record<string, unknown>;
+}
+
+export interface DeliveryResult {
+  /** Origin of the webhook URL; the full URL usually contains a secret */
+  target: string;
+  format: WebhookFormat;
+  ok: boolean;
+  attempts: number;
+  error: string | null;
+}
+
+export const DEAD_LETTER_FILE = join(STATE_DIR, "webhook-dead-letters.jsonl");
+
+const REQUEST_TIMEOUT = 10_000;
+const RETRY_BASE_DELAY = 1_000;
+
+const COLORS: Record<WebhookEventName, number> = {
+  "move.started": 0x3b82f6,
+  "move.finished": 0x22c55e,
+  "move.failed": 0xef4444,
+  "mount.up": 0x22c55e,
+  "mount.down": 0xef4444,
+  "mount.crashloop": 0xef4444,
+  "disk.low": 0xf59e0b,
+  "config.invalid": 0xef4444,
+  test: 0x6b7280,
+};
+
+/** Scalar data values, shown as fields in Slack and Discord messages */
+function fields(event: WebhookEvent): [string, string][] {
+  return Object.entries(event.data)
+    .filter(([, value]) =>
+      ["string", "number", "boolean"].includes(typeof value)
+    )
+    .map(([name, value]) => [name, String(value)]);
+}
+
+export function formatWebhookBody(
+  event: WebhookEvent,
+  format: WebhookFormat
+): unknown {
+  const title = `neomount (${event.host}): ${event.event}`;
+  const color = COLORS[event.event];
+
+  switch (format) {
+    case "json":
+      return event;
+    case "slack":
+      return {
+        text: `*${title}*\n${event.message}`,
+        attachments: [
+          {
+            color: `#${color.toString(16).padStart(6, "0")}`,
+            fields: fields(event).map(([name, value]) => ({
+              title: name,
+              value,
+              short: true,
+            })),
+            ts: Math.floor(Date.parse(event.timestamp) / 1000),
+          },
+        ],
+      };
+    case "discord":
+      return {
+        embeds: [
+          {
+            title,
+            // Discord rejects descriptions over 4096 characters
+            description: event.message.slice(0, 4096),
+            color,
+            timestamp: event.timestamp,
+            fields: fields(event).map(([name, value]) => ({
+              name,
+              value,
+              inline: true,
+            })),
+          },
+        ],
+      };
+  }
+}
+
+function webhookTarget(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return "invalid URL";
+  }
+}
+
+/**
+ * A webhook URL fit for printing: the path and query usually hold a token
+ */
+export function redactWebhookUrl(url: string): string {
+  const target = webhookTarget(url);
+  return target === "invalid URL" ? target : `${target}/<redacted>`;
+}
+
+class DeliveryError extends Error {
+  constructor(message: string, public readonly retryable: boolean) {
+    super(message);
+    this.name = "DeliveryError";
+  }
+}
+
+async function post(url: string, body: unknown): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "user-agent": "neomount",
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+    });
+  } catch (error) {
+    const cause = (error as Error & { cause?: Error }).cause;
+    throw new DeliveryError(cause?.message ?? (error as Error).message, true);
+  }
+  await response.body?.cancel();
+
+  if (!response.ok) {
+    // Client errors other than rate limiting will not fix themselves
+    const retryable = response.status >= 500 || response.status === 429;
+    throw new DeliveryError(`HTTP ${response.status}`, retryable);
+  }
+}
+
+async function appendDeadLetter(
+  event: WebhookEvent,
+  result: DeliveryResult
+): Promise<void> {
+  const entry = { failedAt: new Date().toISOString(), ...result, event };
+  await mkdir(dirname(DEAD_LETTER_FILE), { recursive: true });
+  await appendFile(DEAD_LETTER_FILE, JSON.stringify(entry) + "\n");
+}
+
+async function deliver(
+  event: WebhookEvent,
+  url: string,
+  format: WebhookFormat,
+  retries: number,
+  log: Logger
+): Promise<DeliveryResult> {
+  const result: DeliveryResult = {
+    target: webhookTarget(url),
+    format,
+    ok: false,
+    attempts: 0,
+    error: null,
+  };
+  const body = formatWebhookBody(event, format);
+
+  for (;;) {
+    result.attempts++;
+    try {
+      await post(url, body);
+      result.ok = true;
+      result.error = null;
+      return result;
+    } catch (error) {
+      result.error = (error as Error).message;
+      const retryable = !(error instanceof DeliveryError) || error.retryable;
+      if (!retryable || result.attempts > retries) break;
+    }
+    await sleep(RETRY_BASE_DELAY * 2 ** (result.attempts - 1));
+  }
+
+  log.error(
+    `Webhook ${event.event} to ${result.target} failed after ` +
+      `${result.attempts} attempts: ${result.error}`,
+    {
+      event: event.event,
+      target: result.target,
+      attempts: result.attempts,
+      error: result.error,
+    }
+  );
+  try {
+    await appendDeadLetter(event, result);
+  } catch (error) {
+    log.error(`Failed to write ${DEAD_LETTER_FILE}`, { error });
+  }
+  return result;
+}
+
+/**
+ * Send an event to every configured webhook subscribed to it. Never
+ * rejects; failures end up in the dead-letter log.
+ */
+export async function notifyWebhooks(
+  config: Config,
+  log: Logger,
+  name: WebhookEventName,
+  message: string,
+  data: Record<string, unknown> = {}
+): Promise<DeliveryResult[]> {
+  const { urls, events, retries } = config.webhooks;
+  if (name !== "test" && events.length > 0 && !events.includes(name)) {
+    return [];
+  }
+
+  const event: WebhookEvent = {
+    event: name,
+    timestamp: new Date().toISOString(),
+    host: hostname(),
+    message,
+    data,
+  };
+  return Promise.all(
+    urls.map((hook) => deliver(event, hook.url, hook.format, retries, log))
+  );
+}
@@ -96,6 +96,14 @@ export class DockerClient {
     console.log("✅ Container started");
   }
 
+  /**
+   * Stop the container, waiting up to `timeout` seconds before it is killed
+   */
+  async stop(timeout: number): Promise<void> {
+    if (!this.container) throw new Error("Container not started");
+    await this.container.stop({ t: timeout });
+  }
+
   /**
    * Stop and remove the container
    */
@@ -104,6 +112,10 @@ export class DockerClient {
 
     try {
       await this.container.stop({ t: 5 });
+    } catch (error) {
+      // Container might have stopped already, ignore
+    }
+    try {
       await this.container.remove();
       this.container = null;
     } catch (error) {
@@ -15,9 +15,29 @@ const TEST_DIR = __dirname;
 const PROJECT_DIR = join(TEST_DIR, "..");
 const TEST_DATA_DIR = join(TEST_DIR, "test_data");
 const TEST_REMOTE_DIR = join(TEST_DATA_DIR, "remote");
+const TEST_EXTRA_REMOTE_DIR = join(TEST_DATA_DIR, "remote-extra");
 const TEST_LOCAL_DIR = join(TEST_DATA_DIR, "local");
 const TEST_MERGED_DIR = join(TEST_DATA_DIR, "merged");
 
+// Local stand-in for webhook receivers: records every request it gets in
+// WEBHOOK_LOG and answers /fail with HTTP 500
+const WEBHOOK_PORT = 9099;
+const WEBHOOK_LOG = "/tmp/webhooks.jsonl";
+const WEBHOOK_STAND_IN = `
+const { createServer } = require("node:http");
+const { appendFileSync } = require("node:fs");
+createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    const entry = { path: req.url, body: JSON.parse(body) };
+    appendFileSync("${WEBHOOK_LOG}", JSON.stringify(entry) + "\\n");
+    res.statusCode = req.url === "/fail" ? 500 : 204;
+    res.end();
+  });
+}).listen(${WEBHOOK_PORT});
+`;
+
 let dockerClient: DockerClient | null = null;
 
 // Helper functions
@@ -50,6 +70,7 @@ async function setup() {
 
   // Create test directories
   mkdirSync(TEST_REMOTE_DIR, { recursive: true });
+  mkdirSync(TEST_EXTRA_REMOTE_DIR, { recursive: true });
   mkdirSync(TEST_LOCAL_DIR, { recursive: true });
   mkdirSync(TEST_MERGED_DIR, { recursive: true });
 
@@ -72,6 +93,7 @@ remote = testlocal:/mnt/local-remote
     join(TEST_REMOTE_DIR, "subdir", "remote3.txt"),
     "remote file in subdir"
   );
+  writeFileSync(join(TEST_EXTRA_REMOTE_DIR, "extra1.txt"), "extra remote file");
 
   console.log("✅ Setup complete");
 }
@@ -84,7 +106,18 @@ async function buildImage() {
 
   await dockerClient.buildImage(
     PROJECT_DIR,
-    ["Dockerfile", "supervisord.conf", "entrypoint.sh", "scripts", "services"],
+    [
+      "Dockerfile",
+      "supervisord.conf",
+      "entrypoint.sh",
+      "scripts",
+      "services",
+      "src",
+      "package.json",
+      "pnpm-lock.yaml",
+      "pnpm-workspace.yaml",
+      "tsconfig.json",
+    ],
     IMAGE_NAME
   );
 }
@@ -95,6 +128,7 @@ async function startContainer() {
   const binds = [
     `${TEST_DATA_DIR}/rclone.conf:/config/rclone.conf:ro`,
     `${TEST_DATA_DIR}/remote:/mnt/local-remote:rw`,
+    `${TEST_DATA_DIR}/remote-extra:/mnt/local-remote-extra:rw`,
   ];
 
   await dockerClient.startContainer({
@@ -104,7 +138,15 @@ async function startContainer() {
       "MOVE_SCHEDULE=0 2 * * *",
       "LOCAL_PATH=/mnt/local",
       "MERGED_PATH=/mnt/merged",
-      "RCLONE_MOUNT_ARGS=--vfs-cache-mode off --dir-cache-time 1s --poll-interval 1s",
+      "RCLONE_EXTRA_REMOTES=testlocal:/mnt/local-remote-extra",
+      "MOVE_ROUTES=routed=testlocal:/mnt/local-remote-extra/routed",
+      "WATCHDOG_INTERVAL=2s",
+      "WATCHDOG_TIMEOUT=2s",
+      `WEBHOOK_URLS=http://localhost:${WEBHOOK_PORT}/hook slack:http://localhost:${WEBHOOK_PORT}/fail`,
+      "WEBHOOK_RETRIES=1",
+      "MOVE_BWLIMIT=00:00-12:00 10M, 12:00-00:00 20M",
+      "MOVE_TRANSFERS=4",
+      "RCLONE_MOUNT_ARGS=--vfs-cache-mode off --dir-cache-time 1s --poll-interval 1s !--attr-timeout",
     ],
     binds,
     privileged: true,
@@ -150,6 +192,14 @@ async function startContainer() {
     throw new Error(`Bind mounts not working: ${e}`);
   }
 
+  // Receive the container's webhooks
+  await dockerClient.exec([
+    "sh",
+    "-c",
+    'node -e "$0" > /dev/null 2>&1 &',
+    WEBHOOK_STAND_IN,
+  ]);
+
   // Wait for services to be ready
   await sleep(2000);
 
@@ -225,6 +275,30 @@ async function fileExistsInContainer(path: string): Promise<boolean> {
   }
 }
 
+interface LogRecord {
+  time: string;
+  level: string;
+  service: string;
+  msg: string;
+  fields: Record<string, unknown>;
+}
+
+async function readLogRecords(): Promise<LogRecord[]> {
+  if (!dockerClient) throw new Error("DockerClient not initialized");
+  const records: LogRecord[] = [];
+  for (const line of (await dockerClient.getLogs()).split("\n")) {
+    // Each line is prefixed with the header of docker's log stream
+    const start = line.indexOf('{"time":');
+    if (start === -1) continue;
+    try {
+      records.push(JSON.parse(line.slice(start)));
+    } catch {
+      continue;
+    }
+  }
+  return records;
+}
+
 // Tests - use describe.sequential to ensure proper ordering
 describe.sequential("Neomount Integration Tests", () => {
   beforeAll(async () => {
@@ -425,10 +499,312 @@ describe.sequential("Neomount Integration Tests", () => {
     expect(content).toContain("move test 1");
   });
 
+  test("move runs are recorded in the history", async () => {
+    await writeFileInContainer("/mnt/local/history1.txt", "history test");
+
+    await execInContainer(["node", "/opt/neomount/dist/bin/move.js"]);
+
+    const output = await execInContainer([
+      "curl",
+      "-sf",
+      "http://localhost:8081/move/history?limit=1",
+    ]);
+    const [run] = JSON.parse(output);
+
+    expect(run.trigger).toBe("manual");
+    expect(run.status).toBe("succeeded");
+    expect(run.exitCode).toBe(0);
+    expect(run.stats.files).toBe(1);
+    expect(run.stats.bytes).toBeGreaterThan(0);
+    expect(run.stats.errors).toBe(0);
+  });
+
+  test("move job leaves partial downloads behind", async () => {
+    await createDirectory("/mnt/local/filters/.sync");
+    await writeFileInContainer("/mnt/local/filters/done.mkv", "complete");
+    await writeFileInContainer("/mnt/local/filters/movie.mkv.part", "partial");
+    await writeFileInContainer("/mnt/local/filters/.sync/state", "sync state");
+
+    const listing = await execInContainer([
+      "node",
+      "/opt/neomount/dist/bin/filters.js",
+    ]);
+    expect(listing).toContain("- *.part");
+    expect(listing).toContain("filters/movie.mkv.part");
+    expect(listing).toContain("filters/.sync/state");
+
+    await execInContainer(["node", "/opt/neomount/dist/bin/move.js"]);
+
+    expect(await checkFileExists("filters/done.mkv")).toBe(false);
+    expect(await checkFileExists("filters/movie.mkv.part")).toBe(true);
+    expect(await checkFileExists("filters/.sync/state")).toBe(true);
+  });
+
+  test("move job defers files open for writing", async () => {
+    await writeFileInContainer("/mnt/local/closed.txt", "closed");
+    // Hold the file open through the merged mount, like a download client
+    await execInContainer([
+      "sh",
+      "-c",
+      "(exec 3>>/mnt/merged/writing.bin; sleep 15) >/dev/null 2>&1 &",
+    ]);
+    await sleep(500);
+
+    const output = await execInContainer([
+      "node",
+      "/opt/neomount/dist/bin/move.js",
+    ]);
+    expect(output).toContain("Skipping writing.bin: open for writing");
+
+    expect(await checkFileExists("closed.txt")).toBe(false);
+    expect(await checkFileExists("writing.bin")).toBe(true);
+  });
+
+  test("move refreshes the directories it uploaded to", async () => {
+    await createDirectory("/mnt/local/refreshed/season1");
+    await writeFileInContainer(
+      "/mnt/local/refreshed/season1/e01.txt",
+      "refresh test"
+    );
+
+    const output = await execInContainer([
+      "node",
+      "/opt/neomount/dist/bin/move.js",
+    ]);
+    expect(output).toMatch(/Refreshed [1-9]\d* directories of rclone/);
+
+    // No waiting for the directory cache to expire
+    expect(
+      await fileExistsInContainer("/mnt/rclone/refreshed/season1/e01.txt")
+    ).toBe(true);
+    expect(
+      await fileExistsInContainer("/mnt/merged/refreshed/season1/e01.txt")
+    ).toBe(true);
+  });
+
+  test("VFS stats are read from each rclone mount", async () => {
+    const output = await execInContainer([
+      "curl",
+      "-sf",
+      "http://localhost:8081/vfs/stats",
+    ]);
+    const mounts = JSON.parse(output);
+
+    expect(mounts.map((mount: { program: string }) => mount.program)).toEqual([
+      "rclone",
+      "rclone-testlocal",
+    ]);
+    for (const mount of mounts) {
+      expect(mount.error).toBeNull();
+      expect(mount.stats.metadataCache).toBeDefined();
+    }
+    expect(mounts[0].stats.fs).toContain("testremote:");
+  });
+
+  test("pre-warm reads remote files and skips local ones", async () => {
+    await createDirectory("/mnt/local-remote/prewarm");
+    await writeFileInContainer("/mnt/local-remote/prewarm/e01.txt", "one");
+    await writeFileInContainer("/mnt/local-remote/prewarm/e02.txt", "two");
+    await createDirectory("/mnt/local/prewarm");
+    await writeFileInContainer("/mnt/local/prewarm/e02.txt", "local two");
+    // Wait for rclone to list the new directory
+    await sleep(3000);
+
+    const output = await execInContainer([
+      "node",
+      "/opt/neomount/dist/bin/prewarm.js",
+      "prewarm/*.txt",
+    ]);
+    expect(output).toContain("Warmed prewarm/e01.txt");
+    expect(output).toContain("Warmed 1 of 1 files");
+    expect(output).toContain("1 already local");
+
+    const started = await execInContainer([
+      "curl",
+      "-sf",
+      "-X",
+      "POST",
+      "-d",
+      '{"paths": ["/mnt/merged/prewarm/e01.txt"], "maxBytes": "1M"}',
+      "http://localhost:8081/prewarm",
+    ]);
+    expect(JSON.parse(started).status).toBe("listing");
+
+    let progress = JSON.parse(started);
+    for (let i = 0; i < 20 && progress.status !== "finished"; i++) {
+      await sleep(500);
+      progress = JSON.parse(
+        await execInContainer(["curl", "-sf", "http://localhost:8081/prewarm"])
+      );
+    }
+    expect(progress.status).toBe("finished");
+    expect(progress.warmedFiles).toBe(1);
+    expect(progress.readBytes).toBe(progress.bytes);
+    expect(progress.failed).toEqual([]);
+
+    const invalid = await execInContainer([
+      "sh",
+      "-c",
+      `curl -s -o /dev/null -w '%{http_code}' -X POST -d '{"patterns": ["../etc"]}' http://localhost:8081/prewarm`,
+    ]);
+    expect(invalid).toContain("400");
+  });
+
+  test("move job verifies files before deleting them", async () => {
+    await createDirectory("/mnt/local/verified");
+    await writeFileInContainer("/mnt/local/verified/v1.txt", "verify test");
+
+    const output = await execInContainer([
+      "sh",
+      "-c",
+      "MOVE_VERIFY=true /scripts/move-job.sh",
+    ]);
+    expect(output).toMatch(
+      /Route "default" verified: [1-9]\d* ok, 0 re-uploaded, 0 quarantined/
+    );
+
+    expect(await checkFileExists("verified/v1.txt")).toBe(false);
+    // Directories emptied by the move are removed, as with rclone move
+    const directory = await execInContainer([
+      "sh",
+      "-c",
+      "test -d /mnt/local/verified && echo present || echo removed",
+    ]);
+    expect(directory).toContain("removed");
+
+    // Wait for rclone to update
+    await sleep(4000);
+    expect(await checkFileExists("verified/v1.txt", true)).toBe(true);
+  });
+
+  test("move transfers follow the bandwidth schedule", async () => {
+    const hour = Number(await execInContainer(["date", "+%H"]));
+    const limit = hour < 12 ? "10240K" : "20480K";
+
+    const schedule = await execInContainer([
+      "node",
+      "/opt/neomount/dist/bin/bandwidth.js",
+    ]);
+    expect(schedule).toContain(
+      "Schedule: 10.0MiB/s 00:00-12:00, 20.0MiB/s 12:00-00:00, unlimited otherwise"
+    );
+    expect(schedule).toContain(`Current limit: ${limit}`);
+    expect(schedule).toContain("Transfers: 4, checkers: 16");
+
+    await writeFileInContainer("/mnt/local/limited.txt", "bandwidth test");
+    const output = await execInContainer(["/scripts/move-job.sh"]);
+    expect(output).toContain(`Bandwidth limit: ${limit}`);
+    expect(await checkFileExists("limited.txt")).toBe(false);
+
+    // The remote control socket only exists while a transfer runs
+    const socket = await execInContainer([
+      "sh",
+      "-c",
+      "test -e /run/neomount/move-rc.sock && echo present || echo removed",
+    ]);
+    expect(socket).toContain("removed");
+  });
+
+  test("dry run reports the move plan without moving", async () => {
+    await createDirectory("/mnt/local-remote/plan");
+    await writeFileInContainer("/mnt/local-remote/plan/existing.txt", "old");
+    await createDirectory("/mnt/local/plan");
+    await writeFileInContainer("/mnt/local/plan/existing.txt", "new content");
+    await writeFileInContainer("/mnt/local/plan/new.txt", "new file");
+
+    const output = await execInContainer([
+      "node",
+      "/opt/neomount/dist/bin/move.js",
+      "--dry-run",
+      "--json",
+    ]);
+    const plan = JSON.parse(output);
+    const planned = (path: string) =>
+      plan.files.find((file: { path: string }) => file.path === path);
+
+    expect(planned("plan/existing.txt")).toMatchObject({
+      route: "default",
+      bytes: 11,
+      destination: "testremote:plan/existing.txt",
+      action: "upload",
+      overwrite: true,
+    });
+    expect(planned("plan/new.txt")).toMatchObject({ overwrite: false });
+    expect(plan.totalBytes).toBeGreaterThanOrEqual(19);
+
+    // Nothing was moved
+    expect(await checkFileExists("plan/existing.txt")).toBe(true);
+    expect(await checkFileExists("plan/new.txt")).toBe(true);
+
+    await execInContainer(["rm", "-rf", "/mnt/local/plan"]);
+  });
+
+  test("webhooks are sent for move runs", async () => {
+    await writeFileInContainer("/mnt/local/webhook.txt", "webhook test");
+    await execInContainer(["node", "/opt/neomount/dist/bin/move.js"]);
+
+    const requests = (await readFileInContainer(WEBHOOK_LOG))
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    const events = requests
+      .filter((request) => request.path === "/hook")
+      .map((request) => request.body);
+
+    const finished = events
+      .filter((event) => event.event === "move.finished")
+      .at(-1);
+    expect(finished.data).toMatchObject({
+      trigger: "manual",
+      status: "succeeded",
+    });
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        event: "move.started",
+        data: expect.objectContaining({ id: finished.data.id }),
+      })
+    );
+
+    // The same event, formatted for Slack
+    const slack = requests
+      .filter((request) => request.path === "/fail")
+      .map((request) => request.body.text)
+      .find((text) => text.includes(finished.data.id));
+    expect(slack).toContain("move.finished");
+  });
+
+  test("undeliverable webhooks are dead-lettered", async () => {
+    const letters = (
+      await readFileInContainer("/var/lib/neomount/webhook-dead-letters.jsonl")
+    )
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(letters).toContainEqual(
+      expect.objectContaining({
+        format: "slack",
+        attempts: 2,
+        error: "HTTP 500",
+        event: expect.objectContaining({ event: "move.finished" }),
+      })
+    );
+
+    const output = await execInContainer([
+      "sh",
+      "-c",
+      "node /opt/neomount/dist/bin/notify.js --test; echo exit=$?",
+    ]);
+    expect(output).toContain(
+      `Webhook 1 (json, http://localhost:${WEBHOOK_PORT}): delivered`
+    );
+    expect(output).toContain("failed after 2 attempts: HTTP 500");
+    expect(output).toContain("exit=1");
+  });
+
   test("services are running", async () => {
     // Check if supervisorctl shows services running
     // Note: supervisorctl returns exit code 3 if any process is not RUNNING,
-    // but move-job-init is expected to be EXITED, so we catch and check output
+    // so we catch and check output
     let status;
     try {
       status = await execInContainer(["supervisorctl", "status"]);
@@ -442,14 +818,330 @@ describe.sequential("Neomount Integration Tests", () => {
     expect(status).toContain("RUNNING");
   });
 
-  test("cron is configured correctly", async () => {
-    // Check if cron job file exists
-    const cronFileExists = await fileExistsInContainer("/etc/cron.d/move-job");
-    expect(cronFileExists, "Cron job file should exist").toBe(true);
+  test("extra remotes are mounted and merged", async () => {
+    const status = await execInContainer([
+      "supervisorctl",
+      "status",
+      "rclone-testlocal",
+    ]);
+    expect(status).toContain("RUNNING");
+
+    expect(await waitForMount("/mnt/rclone-testlocal")).toBe(true);
+
+    // Visible through the merged view after the primary remote and local
+    const content = await readFileInContainer("/mnt/merged/extra1.txt");
+    expect(content.trim()).toBe("extra remote file");
+
+    // Uploads still go to RCLONE_REMOTE by default
+    const routes = await execInContainer([
+      "node",
+      "/opt/neomount/dist/bin/move-routes.js",
+    ]);
+    expect(routes.split("\0")).toContain("testremote:");
+  });
+
+  test("move job routes subdirectories to their own destination", async () => {
+    await createDirectory("/mnt/local/routed");
+    await writeFileInContainer("/mnt/local/routed/routed1.txt", "routed");
+    await writeFileInContainer("/mnt/local/unrouted1.txt", "unrouted");
+
+    await execInContainer(["node", "/opt/neomount/dist/bin/move.js"]);
+
+    expect(
+      existsSync(join(TEST_EXTRA_REMOTE_DIR, "routed", "routed1.txt"))
+    ).toBe(true);
+    expect(existsSync(join(TEST_REMOTE_DIR, "unrouted1.txt"))).toBe(true);
+
+    const output = await execInContainer([
+      "curl",
+      "-sf",
+      "http://localhost:8081/move/history?limit=1",
+    ]);
+    const [run] = JSON.parse(output);
+    const routes = Object.fromEntries(
+      run.routes.map((route: { name: string; status: string }) => [
+        route.name,
+        route.status,
+      ])
+    );
+    expect(routes).toEqual({ routed: "succeeded", default: "succeeded" });
+  });
+
+  test("anchored move filters keep their meaning in every route", async () => {
+    const script = `
+      const { getResolvedConfig, validateConfig } = await import("/opt/neomount/dist/config/load.js");
+      const { parseFilterRule } = await import("/opt/neomount/dist/filters.js");
+      const { buildRouteFilters, getMoveRoutes } = await import("/opt/neomount/dist/move/routes.js");
+      const config = await getResolvedConfig();
+      config.move.filters = ["- /routed/extras/**", "- /samples/**"].map(parseFilterRule);
+      const routes = Object.fromEntries(
+        getMoveRoutes(config).map((route) => [route.name, buildRouteFilters(config, route, [])])
+      );
+      const { issues } = await validateConfig({ ...process.env, MOVE_FILTERS: "- /*/extras/**" });
+      console.log(JSON.stringify({ routes, issues }));
+    `;
+    const output = await execInContainer([
+      "node",
+      "--input-type=module",
+      "-e",
+      script,
+    ]);
+    const { routes, issues } = JSON.parse(output);
+
+    // Relative to the route's directory, without rules for other routes
+    expect(routes.routed).toContain("- /extras/**");
+    expect(routes.routed).not.toContain("- /samples/**");
+    expect(routes.routed).not.toContain("- /.quarantine/**");
+    // Unchanged for the default route, which moves from LOCAL_PATH
+    expect(routes.default).toContain("- /routed/extras/**");
+    expect(routes.default).toContain("- /samples/**");
+
+    // A wildcard within a route's directory cannot be rewritten
+    expect(issues).toContainEqual({
+      field: "MOVE_FILTERS/MOVE_ROUTES",
+      message: expect.stringContaining('"/*/extras/**"'),
+    });
+  });
+
+  test("mount args are merged with the defaults", async () => {
+    const log = await readFileInContainer("/var/log/supervisor/rclone.log");
+    const command = log
+      .split("\n")
+      .find((line) => line.startsWith("Effective command:"));
+
+    // Overridden by RCLONE_MOUNT_ARGS
+    expect(command).toContain("--vfs-cache-mode off");
+    expect(command).toContain("--dir-cache-time 1s");
+    // Kept from the defaults
+    expect(command).toContain("--vfs-cache-max-size 100G");
+    // Removed with !--attr-timeout
+    expect(command).not.toContain("--attr-timeout");
+    // Core argument: the remote control socket
+    expect(command).toContain("--rc-addr unix:///run/neomount/rc/rclone.sock");
+    expect(command).toContain("--use-json-log");
+  });
+
+  test("management API reports status", async () => {
+    const output = await execInContainer([
+      "curl",
+      "-sf",
+      "http://localhost:8081/status",
+    ]);
+    const status = JSON.parse(output);
+
+    const programs = status.programs.map((p: { name: string }) => p.name);
+    expect(programs).toContain("rclone");
+    expect(programs).toContain("mergerfs");
+
+    const merged = status.mounts.find(
+      (m: { path: string }) => m.path === "/mnt/merged"
+    );
+    expect(merged?.mounted, "Merged path should be reported mounted").toBe(
+      true
+    );
+  });
+
+  test("management API serves Prometheus metrics", async () => {
+    const metrics = await execInContainer([
+      "curl",
+      "-sf",
+      "http://localhost:8081/metrics",
+    ]);
+
+    expect(metrics).toContain(
+      'neomount_mount_up{mount="mergerfs",path="/mnt/merged"} 1'
+    );
+    expect(metrics).toContain('neomount_program_up{program="rclone"} 1');
+    expect(metrics).toContain("neomount_local_pending_bytes");
+    expect(metrics).toContain('neomount_move_runs_total{status="failed"}');
+  });
+
+  test("health check reports every layer", async () => {
+    const output = await execInContainer([
+      "node",
+      "/opt/neomount/dist/bin/health.js",
+      "--json",
+    ]);
+    const report = JSON.parse(output);
+
+    expect(report.status).not.toBe("unhealthy");
+    const failing = report.checks.filter(
+      (check: { check: string; status: string }) =>
+        ["process", "mount"].includes(check.check) && check.status !== "ok"
+    );
+    expect(failing).toEqual([]);
+    expect(
+      report.checks.map((check: { check: string }) => check.check)
+    ).toEqual(expect.arrayContaining(["process", "mount", "local", "move"]));
+
+    // The same report is left behind for other tools to read
+    const saved = JSON.parse(
+      await readFileInContainer("/run/neomount/health.json")
+    );
+    expect(saved.checkedAt).toBe(report.checkedAt);
+  });
+
+  test("neomount command covers day-to-day operations", async () => {
+    const status = await execInContainer(["neomount", "status"]);
+    expect(status).toMatch(/rclone\s+RUNNING/);
+    expect(status).toContain("/mnt/merged  mounted (fuse.mergerfs)");
+    expect(status).toContain("Pending upload:");
+
+    // Webhook URLs can hold tokens, so only their origin is shown
+    const config = await execInContainer(["neomount", "config"]);
+    expect(config).toContain("RCLONE_REMOTE=testremote");
+    expect(config).toContain(`http://localhost:${WEBHOOK_PORT}/<redacted>`);
+    expect(config).not.toContain("/hook");
+
+    const logs = await execInContainer([
+      "neomount",
+      "logs",
+      "rclone",
+      "-n",
+      "100000",
+    ]);
+    expect(logs).toContain("Effective command:");
+    await expect(
+      execInContainer(["neomount", "logs", "nonexistent"])
+    ).rejects.toThrow(/available: .*mergerfs/);
+
+    const history = await execInContainer([
+      "neomount",
+      "history",
+      "--limit",
+      "1",
+      "--json",
+    ]);
+    expect(JSON.parse(history)).toHaveLength(1);
+
+    // Exits non-zero if anything is unhealthy
+    const doctor = await execInContainer(["neomount", "doctor"]);
+    expect(doctor).toContain("[ok] fuse: available");
+    expect(doctor).toContain(
+      "[ok] rclone.conf: defines every configured remote"
+    );
+    expect(doctor).toContain("[ok] process scheduler: RUNNING, next move at");
+  });
+
+  test("scheduler is configured correctly", async () => {
+    const status = await execInContainer([
+      "supervisorctl",
+      "status",
+      "scheduler",
+    ]);
+    expect(status).toContain("RUNNING");
+
+    // Upcoming fire times are logged at startup
+    const log = await readFileInContainer("/var/log/supervisor/scheduler.log");
+    expect(log).toContain("Move schedule: 0 2 * * *");
+    expect(log).toContain("Next move at");
+  });
+
+  test("move job refuses to overlap a running move", async () => {
+    // Hold the move lock as a running move would
+    await execInContainer([
+      "sh",
+      "-c",
+      "flock /run/neomount/move.lock sleep 10 > /dev/null 2>&1 &",
+    ]);
+    await sleep(500);
+
+    const output = await execInContainer([
+      "sh",
+      "-c",
+      "/scripts/move-job.sh; echo exit=$?",
+    ]);
+    expect(output).toContain("already running");
+    expect(output).toContain("exit=75");
+  });
+
+  test("moves started at once keep the running move on record", async () => {
+    await writeFileInContainer("/mnt/local/race1.txt", "race test");
+    await sleep(1000);
+    const getRun = async () =>
+      JSON.parse(
+        await execInContainer(["curl", "-sf", "http://localhost:8081/move"])
+      );
+    const previous = await getRun();
 
-    // Check if cron daemon is running
-    const cronPs = await execInContainer(["pgrep", "cron"]);
-    expect(cronPs).toBeTruthy();
+    // A manual move and an API move started at the same moment
+    await execInContainer([
+      "sh",
+      "-c",
+      "node /opt/neomount/dist/bin/move.js > /dev/null 2>&1 & " +
+        "curl -s -o /dev/null -X POST http://localhost:8081/move",
+    ]);
+
+    // The move that lost the race must not replace the record of the one
+    // that is running, or it could no longer be seen or cancelled
+    const statuses: string[] = [];
+    for (let i = 0; i < 150; i++) {
+      const run = await getRun();
+      if (run?.id !== previous?.id) {
+        statuses.push(run.status);
+        if (run.status !== "running") break;
+      }
+      await sleep(200);
+    }
+
+    expect(statuses).not.toContain("skipped");
+    expect(statuses.at(-1)).toBe("succeeded");
+    expect(await checkFileExists("race1.txt", true)).toBe(true);
+  });
+
+  test("watchdog recovers a hung rclone mount", async () => {
+    // A stopped FUSE daemon leaves every access to the mount hanging
+    await execInContainer([
+      "sh",
+      "-c",
+      "kill -STOP $(supervisorctl pid rclone)",
+    ]);
+
+    let events: { restarted: string[]; outcome: string }[] = [];
+    for (let i = 0; i < 60 && events.length === 0; i++) {
+      await sleep(2000);
+      const output = await execInContainer([
+        "curl",
+        "-sf",
+        "http://localhost:8081/watchdog/events",
+      ]);
+      events = JSON.parse(output);
+    }
+
+    expect(events[0]?.outcome).toBe("recovered");
+    expect(events[0]?.restarted).toEqual(["rclone", "mergerfs"]);
+    expect(await waitForMount("/mnt/merged", 30)).toBe(true);
+    const content = await readFileInContainer("/mnt/merged/remote1.txt");
+    expect(content).toContain("remote file 1");
+  }, 150000);
+
+  test("service logs reach docker logs as JSON records", async () => {
+    const records = await readLogRecords();
+
+    const services = new Set(records.map((record) => record.service));
+    expect(services).toContain("supervisord");
+    expect(services).toContain("rclone");
+    expect(services).toContain("mergerfs");
+    expect(services).toContain("scheduler");
+    for (const record of records) {
+      expect(["debug", "info", "warn", "error"]).toContain(record.level);
+      expect(Date.parse(record.time)).not.toBeNaN();
+      expect(typeof record.fields).toBe("object");
+    }
+
+    // rclone's JSON log keeps its extra keys as fields
+    const rclone = records.find(
+      (record) => record.service === "rclone" && "source" in record.fields
+    );
+    expect(rclone).toBeDefined();
+    // The shell scripts' echoes are plain text
+    expect(
+      records.some(
+        (record) =>
+          record.service === "rclone" &&
+          record.msg.startsWith("Effective command:")
+      )
+    ).toBe(true);
   });
 
   test("log files are created", async () => {
@@ -460,10 +1152,13 @@ describe.sequential("Neomount Integration Tests", () => {
       "/var/log/supervisor/rclone_error.log",
       "/var/log/supervisor/mergerfs.log",
       "/var/log/supervisor/mergerfs_error.log",
-      "/var/log/supervisor/cron.log",
-      "/var/log/supervisor/cron_error.log",
-      "/var/log/supervisor/move-job-init.log",
-      "/var/log/supervisor/move-job-init_error.log",
+      "/var/log/supervisor/scheduler.log",
+      "/var/log/supervisor/scheduler_error.log",
+      "/var/log/supervisor/api.log",
+      "/var/log/supervisor/api_error.log",
+      "/var/log/supervisor/watchdog.log",
+      "/var/log/supervisor/watchdog_error.log",
+      "/var/log/supervisor/logs_error.log",
     ];
 
     // Check each log file exists
@@ -478,6 +1173,219 @@ describe.sequential("Neomount Integration Tests", () => {
     );
     expect(supervisordLog).toContain("supervisord started");
   });
+
+  // Stops the container, so it runs last
+  test("docker stop shuts the services down in order", async () => {
+    if (!dockerClient) throw new Error("DockerClient not initialized");
+    await dockerClient.stop(60);
+    expect(await dockerClient.isRunning()).toBe(false);
+
+    const steps = (await readLogRecords())
+      .filter((record) => record.service === "shutdown")
+      .map((record) => record.msg);
+    const order = [
+      "Shutting down: stopping new moves",
+      "No move running",
+      "Stopping scheduler, api, watchdog",
+      "Unmounting /mnt/merged",
+      "Unmounted /mnt/merged",
+      "Flushing VFS cache writes of /mnt/rclone",
+      "Unmounted /mnt/rclone",
+      "Flushing VFS cache writes of /mnt/rclone-testlocal",
+      "Unmounted /mnt/rclone-testlocal",
+      "Shutdown complete",
+    ].map((step) => steps.indexOf(step));
+    expect(order).not.toContain(-1);
+    expect(order).toEqual([...order].sort((a, b) => a - b));
+    expect(steps.join("\n")).not.toContain("lazily");
+  }, 90000);
+});
+
+describe.sequential("Watch Mode Tests", () => {
+  // Its own container, since watch mode would move the files the other
+  // tests leave in LOCAL_PATH
+  const watchDataDir = join(TEST_DIR, "watch_test_data");
+  const watchClient = new DockerClient({
+    containerName: `${CONTAINER_NAME}-watch`,
+    imageName: IMAGE_NAME,
+  });
+
+  beforeAll(async () => {
+    rmSync(watchDataDir, { recursive: true, force: true });
+    mkdirSync(join(watchDataDir, "remote"), { recursive: true });
+    writeFileSync(
+      join(watchDataDir, "rclone.conf"),
+      "[testremote]\ntype = alias\nremote = /mnt/local-remote\n"
+    );
+
+    await watchClient.startContainer({
+      env: [
+        "RCLONE_REMOTE=testremote",
+        "RCLONE_REMOTE_PATH=",
+        "MOVE_WATCH=true",
+        "MOVE_WATCH_SETTLE=2s",
+        "MOVE_WATCH_BATCH=2",
+        "MOVE_WATCH_INTERVAL=3s",
+        "RCLONE_MOUNT_ARGS=--vfs-cache-mode off --dir-cache-time 1s",
+      ],
+      binds: [
+        `${join(watchDataDir, "rclone.conf")}:/config/rclone.conf:ro`,
+        `${join(watchDataDir, "remote")}:/mnt/local-remote:rw`,
+      ],
+      privileged: true,
+    });
+    expect(await watchClient.waitForHealthy(60)).toBe(true);
+  }, 120000);
+
+  afterAll(async () => {
+    await watchClient.stopContainer();
+    rmSync(watchDataDir, { recursive: true, force: true });
+  });
+
+  test("settled files are moved in batches", async () => {
+    await watchClient.exec([
+      "sh",
+      "-c",
+      "for i in 1 2 3 4 5; do echo watch $i > /mnt/local/watch$i.txt; done; " +
+        "echo partial > /mnt/local/watch6.part",
+    ]);
+
+    // Still settling
+    await sleep(1000);
+    expect(await watchClient.exec(["ls", "/mnt/local"])).toContain(
+      "watch1.txt"
+    );
+
+    let remaining = "";
+    for (let i = 0; i < 30; i++) {
+      await sleep(1000);
+      remaining = await watchClient.exec(["ls", "-A", "/mnt/local"]);
+      if (remaining === "watch6.part") break;
+    }
+    expect(remaining).toBe("watch6.part");
+    expect(
+      existsSync(join(watchDataDir, "remote", "watch5.txt")),
+      "watch5.txt should be on the remote"
+    ).toBe(true);
+
+    const runs = JSON.parse(
+      await watchClient.exec([
+        "curl",
+        "-sf",
+        "http://localhost:8081/move/history?limit=10",
+      ])
+    );
+    expect(runs.map((run: { trigger: string }) => run.trigger)).toEqual([
+      "watch",
+      "watch",
+      "watch",
+    ]);
+    expect(
+      runs.map((run: { stats: { files: number } }) => run.stats.files)
+    ).toEqual([1, 2, 2]);
+
+    const logs = await watchClient.exec([
+      "cat",
+      "/var/log/supervisor/scheduler.log",
+    ]);
+    expect(logs).toContain("Watch mode: moving files once unchanged for 2s");
+    expect(logs).toMatch(
+      /Started watch move \S+: 2 files \(.+\), 3 more queued/
+    );
+  }, 60000);
+});
+
+describe.sequential("Emergency Move Tests", () => {
+  // Its own container, since every check would start an emergency move
+  const emergencyDataDir = join(TEST_DIR, "emergency_test_data");
+  const emergencyClient = new DockerClient({
+    containerName: `${CONTAINER_NAME}-emergency`,
+    imageName: IMAGE_NAME,
+  });
+
+  beforeAll(async () => {
+    rmSync(emergencyDataDir, { recursive: true, force: true });
+    mkdirSync(join(emergencyDataDir, "remote"), { recursive: true });
+    writeFileSync(
+      join(emergencyDataDir, "rclone.conf"),
+      "[testremote]\ntype = alias\nremote = /mnt/local-remote\n"
+    );
+
+    await emergencyClient.startContainer({
+      env: [
+        "RCLONE_REMOTE=testremote",
+        "RCLONE_REMOTE_PATH=",
+        // Always below, so the first check starts a move. Only the first
+        // check raises disk.low, so it must come after the file and the
+        // webhook stand-in are in place.
+        "MOVE_MIN_FREE=1000P",
+        "MOVE_PRESSURE_INTERVAL=30s",
+        `WEBHOOK_URLS=http://localhost:${WEBHOOK_PORT}/hook`,
+        "WEBHOOK_EVENTS=disk.low",
+        "RCLONE_MOUNT_ARGS=--vfs-cache-mode off --dir-cache-time 1s",
+      ],
+      binds: [
+        `${join(emergencyDataDir, "rclone.conf")}:/config/rclone.conf:ro`,
+        `${join(emergencyDataDir, "remote")}:/mnt/local-remote:rw`,
+      ],
+      privileged: true,
+    });
+    await emergencyClient.exec([
+      "sh",
+      "-c",
+      'node -e "$0" > /dev/null 2>&1 &',
+      WEBHOOK_STAND_IN,
+    ]);
+    await emergencyClient.exec([
+      "sh",
+      "-c",
+      "mkdir -p /mnt/local && echo emergency > /mnt/local/emergency.txt",
+    ]);
+    expect(await emergencyClient.waitForHealthy(60)).toBe(true);
+  }, 120000);
+
+  afterAll(async () => {
+    await emergencyClient.stopContainer();
+    rmSync(emergencyDataDir, { recursive: true, force: true });
+  });
+
+  test("low free space starts a move and raises a warning", async () => {
+    // The scheduler checks the disk every MOVE_PRESSURE_INTERVAL
+    let remaining = "";
+    for (let i = 0; i < 90; i++) {
+      await sleep(1000);
+      remaining = await emergencyClient.exec(["ls", "-A", "/mnt/local"]);
+      if (remaining === "") break;
+    }
+    expect(remaining).toBe("");
+    expect(
+      existsSync(join(emergencyDataDir, "remote", "emergency.txt")),
+      "emergency.txt should be on the remote"
+    ).toBe(true);
+
+    const [run] = JSON.parse(
+      await emergencyClient.exec([
+        "curl",
+        "-sf",
+        "http://localhost:8081/move/history?limit=1",
+      ])
+    );
+    expect(run.trigger).toBe("pressure");
+    expect(run.status).toBe("succeeded");
+
+    const hooks = (await emergencyClient.exec(["cat", WEBHOOK_LOG]))
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(hooks).toHaveLength(1);
+    expect(hooks[0].body.event).toBe("disk.low");
+    expect(hooks[0].body.data.files).toBe(1);
+    expect(hooks[0].body.message).toContain("moving 1 files");
+
+    const logs = await emergencyClient.getLogs();
+    expect(logs).toMatch(
+      /"level":"warn","service":"scheduler","msg":"Local free space down to/
+    );
+  }, 120000);
 });
 
 describe.sequential("Error Handling Tests", () => {
@@ -544,4 +1452,92 @@ describe.sequential("Error Handling Tests", () => {
       await testClient.stopContainer();
     }
   });
+
+  test("container reports every invalid setting at once", async () => {
+    const testClient = new DockerClient({
+      containerName: `${CONTAINER_NAME}-badconfig`,
+      imageName: IMAGE_NAME,
+    });
+
+    try {
+      await testClient.startContainer({
+        env: [
+          "RCLONE_REMOTE=testremote",
+          "MOVE_SCHEDULE=0 2 * *",
+          "LOCAL_PATH=/mnt/merged/local",
+          "MERGERFS_MOUNT_ARGS=-o minfreespace=10G extra",
+          "MOVE_LOW_WATER=80%",
+          "HEALTH_MIN_FREE=lots",
+          "MOVE_BWLIMIT=8am-5pm 10M",
+          "LOG_LEVEL=verbose",
+          // Nothing listens there, so the delivery fails straight away
+          "WEBHOOK_URLS=http://localhost:9/hook",
+          "WEBHOOK_RETRIES=0",
+        ],
+        privileged: true,
+      });
+
+      await sleep(3000);
+
+      const info = await testClient.inspect();
+      expect(
+        info?.State.Running,
+        "Container should exit when configuration is invalid"
+      ).toBe(false);
+
+      const logs = await testClient.getLogs();
+      expect(logs).toContain("MOVE_SCHEDULE");
+      expect(logs).toContain("LOCAL_PATH/MERGED_PATH");
+      expect(logs).toContain("MERGERFS_MOUNT_ARGS");
+      expect(logs).toContain("MOVE_HIGH_WATER/MOVE_LOW_WATER");
+      expect(logs).toContain("HEALTH_MIN_FREE");
+      expect(logs).toContain("MOVE_BWLIMIT");
+      expect(logs).toContain("LOG_LEVEL");
+      expect(logs).toContain("Webhook config.invalid to http://localhost:9");
+    } finally {
+      await testClient.stopContainer();
+    }
+  });
+
+  test("config file problems are reported", async () => {
+    const testClient = new DockerClient({
+      containerName: `${CONTAINER_NAME}-badconfigfile`,
+      imageName: IMAGE_NAME,
+    });
+
+    const tempDir = join(TEST_DIR, "temp_test_data");
+    try {
+      mkdirSync(tempDir, { recursive: true });
+      writeFileSync(
+        join(tempDir, "rclone.conf"),
+        "[testremote]\ntype = local\nnounc = true\n"
+      );
+      writeFileSync(
+        join(tempDir, "neomount.yaml"),
+        "rclone:\n  remote: testremote\n  mountPth: /mnt/typo\n"
+      );
+
+      await testClient.startContainer({
+        binds: [
+          `${join(tempDir, "rclone.conf")}:/config/rclone.conf:ro`,
+          `${join(tempDir, "neomount.yaml")}:/config/neomount.yaml:ro`,
+        ],
+        privileged: true,
+      });
+
+      await sleep(3000);
+
+      const info = await testClient.inspect();
+      expect(
+        info?.State.Running,
+        "Container should exit when the config file is invalid"
+      ).toBe(false);
+
+      const logs = await testClient.getLogs();
+      expect(logs).toContain("rclone.mountPth: unknown setting");
+    } finally {
+      await testClient.stopContainer();
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
 });
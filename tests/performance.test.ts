@@ -45,7 +45,18 @@ async function buildImage() {
 
   await dockerClient.buildImage(
     PROJECT_DIR,
-    ["Dockerfile", "supervisord.conf", "entrypoint.sh", "scripts", "services"],
+    [
+      "Dockerfile",
+      "supervisord.conf",
+      "entrypoint.sh",
+      "scripts",
+      "services",
+      "src",
+      "package.json",
+      "pnpm-lock.yaml",
+      "pnpm-workspace.yaml",
+      "tsconfig.json",
+    ],
     IMAGE_NAME
   );
 }